@@ -1,73 +1,207 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import CircuitView from "./components/CircuitView";
-import { calcCircuit, clamp, round1, round2 } from "./logic/electrical";
+import CircuitBuilder from "./components/CircuitBuilder";
+import SweepPanel, { defaultSweep } from "./components/SweepPanel";
+import type { Sweep } from "./components/SweepPanel";
+import type { ProbePoint } from "./components/CircuitView";
+import {
+  CIRCUIT_TYPES,
+  calcCircuit,
+  clamp,
+  faultDescription,
+  round1,
+  round2,
+  wireSegments,
+} from "./logic/electrical";
 import type { CircuitType, FaultType, LoadConfig, CalcResult } from "./logic/electrical";
-
-
-type Mode = "demo" | "practice" | "quiz";
+import type {
+  BatteryConfig,
+  CalcOptions,
+  FuseConfig,
+  ProtectionKind,
+  RelayConfig,
+  RelayFault,
+} from "./logic/electrical";
+import type { WireFaults } from "./logic/electrical";
+import { nodeLabel, readMeter } from "./logic/meter";
+import type { MeterMode } from "./logic/meter";
+import {
+  CIRCUIT_LABELS,
+  FAULT_LABELS,
+  addAttempt,
+  addQuiz,
+  emptyHistory,
+  loadHistory,
+  masteryByCircuit,
+  masteryByFault,
+  masteryByQuantity,
+  mistakeCounts,
+  quantityOf,
+  saveHistory,
+} from "./logic/history";
+import type {
+  Attempt,
+  AttemptSource,
+  CircuitSnapshot,
+  History,
+  MasteryRow,
+} from "./logic/history";
+import {
+  generateTroubleshootScenario,
+  gradeDiagnosis,
+  suspectsFor,
+} from "./logic/troubleshoot";
+import {
+  emptyQuizSet,
+  parseQuizSet,
+  partIdsFor,
+  serializeQuizSet,
+} from "./logic/quizSet";
+import type { QuizSet, QuizSetPart, QuizSetQuestion } from "./logic/quizSet";
+import { decodeShareLink, encodeShareLink } from "./logic/shareLink";
+import { resultsCsv, standaloneSvg, svgToPng } from "./logic/exportFiles";
+import { compareResults, hasFaults, healthyOptions } from "./logic/compare";
+import type { DeltaRow } from "./logic/compare";
+import { explainChange } from "./logic/explain";
+import type { CircuitState } from "./logic/explain";
+import { formatSeed, itemRng, parseSeed, randomSeed } from "./logic/random";
+import type { Rng } from "./logic/random";
+import { parseAnswer, unitMismatch } from "./logic/answer";
+import type { Unit } from "./logic/answer";
+import { misconceptionsFor } from "./logic/misconceptions";
+import type { Misconception } from "./logic/misconceptions";
+import {
+  VOLTAGE_STEP,
+  describeQuizConfig,
+  formatDuration,
+  isBeginnerStep,
+  loadQuizConfig,
+  normalizeQuizConfig,
+  saveQuizConfig,
+} from "./logic/quizConfig";
+import type { QuizConfig, TimeLimit } from "./logic/quizConfig";
+import {
+  emptyBuilder,
+  flipPart,
+  onGrid,
+  partLabel,
+  rotatePart,
+  solveBuilder,
+} from "./logic/builder";
+import type {
+  BuilderCircuit,
+  BuilderKind,
+  BuilderPart,
+  BuilderResult,
+} from "./logic/builder";
+import type {
+  HiddenFault,
+  Measurement,
+  Suspect,
+  TroubleshootResult,
+  TroubleshootScenario,
+} from "./logic/troubleshoot";
+
+type Mode =
+  | "demo"
+  | "practice"
+  | "quiz"
+  | "troubleshoot"
+  | "compare"
+  | "builder"
+  | "progress";
 type Difficulty = "beginner" | "experienced";
+type SourceKind = "ideal" | "battery";
 
 const DEFAULT_LOADS: LoadConfig[] = Array.from({ length: 5 }).map(() => ({
   rUser: 6,
   fault: "normal" as FaultType,
 }));
 
-const QUIZ_TOTAL_QUESTIONS = 10;
+const FUSE_RATINGS = [5, 10, 15, 20, 30];
 
-type Unit = "Ω" | "A" | "V" | "W";
-
-type Part = {
+type PartBase = {
   id: string;
   label: string;
-  unit: Unit;
   // symbolic formula, and then a substitution string
   formula: string;
   substitution: string;
+  // values common mistakes produce, to explain a matching wrong answer
+  misconceptions: Misconception[];
+  // practice hints, revealed one tier at a time: the law, the formula, a
+  // partial substitution, then the full substitution
+  hints: string[];
+};
+
+// a typed number, graded within a tolerance
+type NumberPart = PartBase & {
+  kind: "number";
+  unit: Unit;
   correct: number;
   tol: number;
 };
 
+type Choice = { value: string; label: string };
+
+// multiple choice: fault diagnosis, predict the change
+type ChoicePart = PartBase & {
+  kind: "choice";
+  choices: Choice[];
+  answer: string; // the right choice's value
+  explanation: string; // shown once graded
+};
+
+type Part = NumberPart | ChoicePart;
+
 type Question = {
   id: string;
   title: string;
   prompt: string;
+  difficulty: Difficulty;
   parts: Part[];
+  // the answer is the fault, so the diagram and readings must not show it
+  hidesFaults?: boolean;
   // snapshot + precomputed calc at time of question creation
   snapshot: CircuitSnapshot;
   calc: CalcResult;
 };
 
-type CircuitSnapshot = {
-  circuitType: CircuitType;
-  sourceV: number;
-  loadCount: number;
-  switchClosed: boolean;
-  loads: LoadConfig[];
-};
-
-function uid() {
-  return Math.random().toString(36).slice(2, 10);
-}
+// a finished quiz question and what the student entered, for the review
+type ReviewItem = { question: Question; answers: Record<string, string> };
 
-function parseStudentNumber(raw: string): number | null {
-  if (!raw) return null;
-  const cleaned = raw
-    .toLowerCase()
-    .replace(/,/g, "")
-    .replace(/ohms/g, "")
-    .replace(/omega/g, "")
-    .replace(/[a-zΩ]/g, " ")
-    .trim();
-  const m = cleaned.match(/-?\d+(\.\d+)?/);
-  if (!m) return null;
-  const n = Number(m[0]);
-  return Number.isFinite(n) ? n : null;
+function uid(rng: Rng = Math.random) {
+  return rng().toString(36).slice(2, 10);
 }
 
 function withinTol(val: number, correct: number, tol: number) {
   return Math.abs(val - correct) <= tol;
 }
 
+type Grade = {
+  ok: boolean;
+  message?: string; // why the answer couldn't be accepted (unit, typo)
+  misconception?: Misconception; // the known mistake a wrong answer matches
+};
+
+function gradeAnswer(raw: string, part: Part): Grade {
+  if (part.kind === "choice") return { ok: raw === part.answer };
+  const parsed = parseAnswer(raw);
+  if (!parsed) return { ok: false }; // left blank
+  if (!parsed.ok) return { ok: false, message: parsed.message };
+  const mismatch = unitMismatch(parsed.unit, part.unit);
+  if (mismatch) return { ok: false, message: mismatch };
+  if (withinTol(parsed.value, part.correct, part.tol)) return { ok: true };
+  const misconception = part.misconceptions.filter((m) =>
+    withinTol(parsed.value, m.value, part.tol)
+  )[0];
+  return { ok: false, misconception };
+}
+
+/** Whether any answer can't be marked yet: not a number, or the wrong unit. */
+function hasUnreadable(q: Question, answers: Record<string, string>) {
+  return q.parts.some((p) => !!gradeAnswer(answers[p.id] ?? "", p).message);
+}
+
 function tolFor(unit: Unit) {
   if (unit === "A") return 0.02;
   if (unit === "V") return 0.02;
@@ -80,124 +214,546 @@ function fmt(n: number) {
   return Number.isFinite(n) ? String(round2(n)) : "∞";
 }
 
+/** Save a file download. */
+function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function downloadText(filename: string, text: string, type: string) {
+  downloadBlob(filename, new Blob([text], { type }));
+}
+
+function describeCircuit(circuitType: CircuitType, loadCount: number) {
+  return circuitType === "simple"
+    ? "Simple circuit (1 load)"
+    : circuitType === "series"
+    ? `Series circuit (${loadCount} loads)`
+    : circuitType === "combination"
+    ? `Series-parallel (1 series + ${loadCount - 1} branches)`
+    : `Parallel circuit (${loadCount} branches)`;
+}
+
 function cloneLoads(loads: LoadConfig[], n: number): LoadConfig[] {
-  return loads.slice(0, n).map((l) => ({ rUser: l.rUser, fault: l.fault }));
+  return loads
+    .slice(0, n)
+    .map((l) => ({ rUser: l.rUser, fault: l.fault, kind: l.kind }));
+}
+
+function rTotalFormula(ct: CircuitType) {
+  if (ct === "parallel") return "1/Rtotal = 1/R1 + 1/R2 + …";
+  if (ct === "series") return "Rtotal = R1 + R2 + …";
+  if (ct === "combination") return "Rtotal = R1 + 1 / (1/R2 + 1/R3 + …)";
+  return "Rtotal = R1";
+}
+
+function rTotalSubstitution(ct: CircuitType, calc: CalcResult) {
+  const inv = (rows: CalcResult["rows"]) =>
+    rows.map((r) => (Number.isFinite(r.r) ? `1/${fmt(r.r)}` : "0")).join(" + ");
+
+  if (ct === "parallel") return `1/Rtotal = ${inv(calc.rows)}`;
+  if (ct === "series")
+    return `Rtotal = ${calc.rows.map((r) => fmt(r.r)).join(" + ")}`;
+  if (ct === "combination")
+    return `Rtotal = ${fmt(calc.rows[0].r)} + 1 / (${inv(calc.rows.slice(1))})`;
+  return `Rtotal = ${fmt(calc.rows[0]?.r ?? calc.totalR)}`;
 }
 
 /* =========================
    Question Builder
    ========================= */
 
+// each hint revealed takes this much off the part's one point
+const HINT_PENALTY = 0.2;
+
+/** The law behind a question part, in words: the first practice hint. */
+function lawFor(id: string, ct: CircuitType) {
+  if (id === "rtotal") {
+    if (ct === "series") return "Resistances in series add up.";
+    if (ct === "parallel")
+      return "In parallel, the reciprocals (1/R) of the branches add up.";
+    if (ct === "combination")
+      return "Combine the parallel branches first, then add the series load.";
+    return "With one load, the circuit's resistance is that load's.";
+  }
+  if (id === "itotal") return "Ohm's law: current = voltage ÷ resistance.";
+  if (id === "ptotal") return "Power is voltage times current.";
+  if (id.startsWith("kvl"))
+    return "Kirchhoff's voltage law: the drops around a loop add up to the source voltage.";
+  if (id.startsWith("kcl"))
+    return "Kirchhoff's current law: the current into a junction equals the current out.";
+  if (id[0] === "v")
+    return "Ohm's law for one load: its drop is its current times its resistance.";
+  return ct === "combination"
+    ? "The branches share the voltage left after the series load's drop."
+    : "Every parallel branch sees the full source voltage.";
+}
+
+/** The substitution with only its first term filled in: "I = 12 / …". */
+function partialSubstitution(sub: string) {
+  const eq = sub.indexOf(" = ");
+  if (eq < 0) return sub;
+  const rhs = sub.slice(eq + 3);
+  const op = /\s[+×/−]\s/.exec(rhs);
+  const shown = op ? rhs.slice(0, op.index + op[0].length) : "";
+  return `${sub.slice(0, eq + 3)}${shown}…`;
+}
+
+/**
+ * One numeric question part by id: rtotal, itotal, ptotal, vN (drop), iN
+ * (branch), or kvlN / kclN (the unknown drop / branch current, by Kirchhoff).
+ */
+function buildPart(
+  id: string,
+  snap: CircuitSnapshot,
+  calc: CalcResult
+): NumberPart {
+  const part = basePart(id, snap, calc);
+  return {
+    ...part,
+    kind: "number",
+    hints: [
+      lawFor(id, snap.circuitType),
+      part.formula,
+      partialSubstitution(part.substitution),
+      part.substitution,
+    ],
+  };
+}
+
+function basePart(
+  id: string,
+  snap: CircuitSnapshot,
+  calc: CalcResult
+): Omit<NumberPart, "kind" | "hints"> {
+  const ct = snap.circuitType;
+  const Itotal = calc.totalI;
+  // the voltage the loads see (battery terminals, or the ideal source)
+  const V = calc.terminalV;
+
+  if (id === "rtotal") {
+    return {
+      id,
+      label: "Rtotal",
+      unit: "Ω",
+      formula: rTotalFormula(ct),
+      substitution: rTotalSubstitution(ct, calc),
+      correct: Number.isFinite(calc.totalR) ? calc.totalR : 0,
+      tol: tolFor("Ω"),
+      misconceptions: misconceptionsFor(id, ct, calc),
+    };
+  }
+  if (id === "itotal") {
+    return {
+      id,
+      label: "Itotal",
+      unit: "A",
+      formula: "I = V / Rtotal",
+      substitution: `I = ${fmt(V)} / ${fmt(calc.totalR)}`,
+      correct: Itotal,
+      tol: tolFor("A"),
+      misconceptions: misconceptionsFor(id, ct, calc),
+    };
+  }
+  if (id === "ptotal") {
+    return {
+      id,
+      label: "Ptotal",
+      unit: "W",
+      formula: "P = V × I",
+      substitution: `P = ${fmt(V)} × ${fmt(Itotal)}`,
+      correct: calc.totalP,
+      tol: tolFor("W"),
+      misconceptions: misconceptionsFor(id, ct, calc),
+    };
+  }
+
+  // Kirchhoff: one unknown drop or branch current, from all the others
+  const kirchhoff = /^(kvl|kcl)(\d+)$/.exec(id);
+  if (kirchhoff) {
+    const k = Number(kirchhoff[2]);
+    if (kirchhoff[1] === "kvl") {
+      const others = calc.rows.filter((_, i) => i !== k - 1).map((r) => r.v);
+      return {
+        id,
+        label: `V${k} (Load ${k})`,
+        unit: "V",
+        formula: "V = V1 + V2 + …",
+        substitution: `V${k} = ${[V, ...others].map(fmt).join(" − ")}`,
+        correct: calc.rows[k - 1].v,
+        tol: tolFor("V"),
+        misconceptions: misconceptionsFor(id, ct, calc),
+      };
+    }
+    // in a combination circuit the branches are Loads 2..n
+    const others = calc.rows
+      .filter((_, i) => i !== k - 1 && (ct !== "combination" || i > 0))
+      .map((r) => r.i);
+    return {
+      id,
+      label: `I${k} (Load ${k})`,
+      unit: "A",
+      formula:
+        ct === "combination" ? "Itotal = I2 + I3 + …" : "Itotal = I1 + I2 + …",
+      substitution: `I${k} = ${[Itotal, ...others].map(fmt).join(" − ")}`,
+      correct: calc.rows[k - 1].i,
+      tol: tolFor("A"),
+      misconceptions: misconceptionsFor(id, ct, calc),
+    };
+  }
+
+  const n = Number(id.slice(1));
+  const r = calc.rows[n - 1];
+  if (id[0] === "v") {
+    return {
+      id,
+      label: `V${n} (Load ${n})`,
+      unit: "V",
+      formula: ct === "combination" ? "V1 = I × R1" : "Vn = I × Rn",
+      substitution: `V${n} = ${fmt(Itotal)} × ${fmt(r.r)}`,
+      correct: r.v,
+      tol: tolFor("V"),
+      misconceptions: misconceptionsFor(id, ct, calc),
+    };
+  }
+
+  // branch current: the parallel part of a combination circuit gets what
+  // is left over after Load 1
+  const vPar = ct === "combination" ? V - calc.rows[0].v : V;
+  return {
+    id,
+    label: `I${n} (Load ${n})`,
+    unit: "A",
+    formula: ct === "combination" ? "In = (V − V1) / Rn" : "In = V / Rn",
+    substitution: `I${n} = ${fmt(vPar)} / ${fmt(r.r)}`,
+    correct: r.i,
+    tol: tolFor("A"),
+    misconceptions: misconceptionsFor(id, ct, calc),
+  };
+}
+
+function calcSnapshot(snap: CircuitSnapshot): CalcResult {
+  return calcCircuit({
+    circuitType: snap.circuitType,
+    sourceV: snap.sourceV,
+    switchClosed: snap.switchClosed,
+    loads: snap.loads,
+    wireFaults: snap.wireFaults,
+    battery: snap.battery,
+    relay: snap.relay,
+  });
+}
+
+function withLoadFault(
+  snap: CircuitSnapshot,
+  idx: number,
+  fault: FaultType
+): CircuitSnapshot {
+  return {
+    ...snap,
+    loads: snap.loads.map((l, i) => (i === idx ? { ...l, fault } : l)),
+  };
+}
+
+function shuffle<T>(items: T[], rng: Rng): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+type QuestionBody = Pick<
+  Question,
+  "title" | "prompt" | "parts" | "hidesFaults"
+>;
+
+const CHANGE_CHOICES: Choice[] = [
+  { value: "up", label: "It increases" },
+  { value: "down", label: "It decreases" },
+  { value: "same", label: "It stays the same" },
+  { value: "zero", label: "It drops to zero" },
+];
+
+function changeOf(before: number, after: number) {
+  if (after === before) return "same"; // also ∞ → ∞
+  if (Math.abs(after) < 1e-6) return "zero";
+  if (Math.abs(after - before) <= 1e-6 * Math.max(1, Math.abs(before)))
+    return "same";
+  return after > before ? "up" : "down";
+}
+
+/** "What happens to X if Load k opens (or shorts)?" */
+function predictQuestion(
+  snap: CircuitSnapshot,
+  calc: CalcResult,
+  rng: Rng
+): QuestionBody {
+  const ct = snap.circuitType;
+  const healthy = snap.loads
+    .map((l, i) => (l.fault === "normal" ? i : -1))
+    .filter((i) => i >= 0);
+  const k = healthy[Math.floor(rng() * healthy.length)];
+  // shorting a parallel branch shorts the source, so only series loads short
+  const fault: FaultType = ct === "series" && rng() < 0.4 ? "short" : "open";
+
+  const j =
+    (k + 1 + Math.floor(rng() * (snap.loads.length - 1))) % snap.loads.length;
+  const watches: Array<{
+    label: string;
+    unit: string;
+    read: (c: CalcResult) => number;
+  }> = [
+    { label: "total current", unit: "A", read: (c) => c.totalI },
+    { label: "total resistance", unit: "Ω", read: (c) => c.totalR },
+    ct === "parallel"
+      ? {
+          label: `the current through Load ${j + 1}`,
+          unit: "A",
+          read: (c) => c.rows[j].i,
+        }
+      : {
+          label: `the voltage across Load ${j + 1}`,
+          unit: "V",
+          read: (c) => c.rows[j].v,
+        },
+  ];
+  const watch = watches[Math.floor(rng() * watches.length)];
+
+  const after = calcSnapshot(withLoadFault(snap, k, fault));
+  const before = watch.read(calc);
+  const then = watch.read(after);
+
+  const reason =
+    fault === "short"
+      ? "Shorting a series load takes its resistance out of the loop, so Rtotal falls, more current flows and the other loads drop more of the voltage."
+      : ct === "parallel"
+      ? "Each branch has its own path to the source, so the other branches keep their voltage and current; only the opened branch's current is lost."
+      : ct === "combination" && k > 0
+      ? "Opening a branch raises the parallel section's resistance: less total current flows, Load 1 drops less, and the other branches get more voltage."
+      : "Every bit of current passes through this load, so opening it breaks the only path and the current stops everywhere.";
+
+  return {
+    title: "Predict the Change",
+    prompt: `What happens to ${watch.label} if Load ${k + 1} ${
+      fault === "short" ? "is shorted" : "opens"
+    }?`,
+    parts: [
+      {
+        kind: "choice",
+        id: "predict",
+        label: watch.label[0].toUpperCase() + watch.label.slice(1),
+        formula: "I = V / Rtotal",
+        substitution: "",
+        choices: CHANGE_CHOICES,
+        answer: changeOf(before, then),
+        explanation: `${reason} It goes from ${fmt(before)} to ${fmt(then)} ${
+          watch.unit
+        }.`,
+        misconceptions: [],
+        hints: [
+          "Work out first whether Rtotal goes up or down.",
+          "I = V / Rtotal, then V = I × R for one load",
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * "Which load is faulted and how?" from the readings of a circuit with
+ * exactly one faulted load, or null if the circuit isn't like that.
+ */
+function diagnosisQuestion(
+  snap: CircuitSnapshot,
+  calc: CalcResult,
+  rng: Rng
+): QuestionBody | null {
+  const faulted = snap.loads
+    .map((l, i) => (l.fault === "normal" ? -1 : i))
+    .filter((i) => i >= 0);
+  const wf = snap.wireFaults ?? {};
+  const wireFaulted = Object.keys(wf).some((id) => wf[id] !== "normal");
+  if (faulted.length !== 1 || wireFaulted || snap.relay) return null;
+
+  const idx = faulted[0];
+  const fault = snap.loads[idx].fault;
+  const actual = `${idx + 1}:${fault}`;
+  const readings = (c: CalcResult) => [
+    c.totalI,
+    ...c.rows.map((r) => r.v),
+    ...c.rows.map((r) => r.i),
+  ];
+  const seen = readings(calc);
+
+  // every other single-load fault; if one reads the same, it can't be told apart
+  const healthy: CircuitSnapshot = {
+    ...snap,
+    loads: snap.loads.map((l) => ({ ...l, fault: "normal" as FaultType })),
+  };
+  const others: string[] = [];
+  let ambiguous = false;
+  healthy.loads.forEach((_, i) =>
+    (["high", "open", "short"] as FaultType[]).forEach((f) => {
+      const value = `${i + 1}:${f}`;
+      if (value === actual) return;
+      const r = readings(calcSnapshot(withLoadFault(healthy, i, f)));
+      if (r.some((x, n) => Math.abs(x - seen[n]) > 0.01)) others.push(value);
+      else ambiguous = true;
+    })
+  );
+  if (ambiguous) return null;
+
+  const choices = shuffle(
+    [actual, ...shuffle(others, rng).slice(0, 3)],
+    rng
+  ).map((value) => {
+    const [n, f] = value.split(":");
+    return { value, label: `Load ${n}: ${prettyStatus(f)}` };
+  });
+
+  const V = calc.terminalV;
+  return {
+    title: "Which Load Is Faulted?",
+    prompt: `Measured at ${fmt(
+      V
+    )} V with the switch closed: total current ${fmt(
+      calc.totalI
+    )} A; ${calc.rows
+      .map((r, i) => `Load ${i + 1}: ${fmt(r.v)} V, ${fmt(r.i)} A`)
+      .join("; ")}. Rated resistances: ${snap.loads
+      .map((l, i) => `R${i + 1} = ${fmt(l.rUser)} Ω`)
+      .join(", ")}. Which load is faulted, and how?`,
+    hidesFaults: true,
+    parts: [
+      {
+        kind: "choice",
+        id: "diagnosis",
+        label: "Faulted load",
+        formula: "Vn = I × Rn",
+        substitution: "",
+        choices,
+        answer: actual,
+        explanation: `Load ${idx + 1} — ${faultDescription(
+          fault
+        )} Compare each measured drop with I × R for its rated resistance.`,
+        misconceptions: [],
+        hints: [
+          "Work out what the current and each drop would be with no fault.",
+          "Vn = I × Rn",
+        ],
+      },
+    ],
+  };
+}
+
 function buildQuestion(
   difficulty: Difficulty,
   snap: CircuitSnapshot,
-  calc: CalcResult
+  calc: CalcResult,
+  rng: Rng = Math.random
 ): Question {
-  const id = uid();
+  const id = uid(rng);
   const ct = snap.circuitType;
 
   const parts: Part[] = [];
   let title = "";
   let prompt = "";
-
-  const Rtotal = calc.totalR;
-  const Itotal = calc.totalI;
-  const Ptotal = calc.totalP;
-
-  // helpers for formulas/substitution
-  const fI = "I = V / Rtotal";
-  const sI = `I = ${fmt(snap.sourceV)} / ${fmt(Rtotal)}`;
-
-  const fP = "P = V × I";
-  const sP = `P = ${fmt(snap.sourceV)} × ${fmt(Itotal)}`;
+  let hidesFaults = false;
+  const diagnosis =
+    difficulty === "experienced" && rng() < 0.5
+      ? diagnosisQuestion(snap, calc, rng)
+      : null;
 
   if (difficulty === "beginner") {
     // pick a single-part question that makes sense for the circuit type
     const options: Array<
-      "Rtotal" | "Itotal" | "Ptotal" | "Vdrop1" | "Ibranch1"
+      | "Rtotal"
+      | "Itotal"
+      | "Ptotal"
+      | "Vdrop1"
+      | "Ibranch1"
+      | "KVL"
+      | "KCL"
+      | "Predict"
     > = [];
+    const rows = calc.rows.length;
 
     options.push("Rtotal", "Itotal", "Ptotal");
-    if (ct === "series" && calc.rows.length >= 1) options.push("Vdrop1");
+    if ((ct === "series" || ct === "combination") && calc.rows.length >= 1)
+      options.push("Vdrop1");
     if (ct === "parallel" && calc.rows.length >= 1) options.push("Ibranch1");
+    if (ct === "series" && rows >= 2) options.push("KVL");
+    if ((ct === "parallel" && rows >= 2) || (ct === "combination" && rows >= 3))
+      options.push("KCL");
+    if (rows >= 2 && snap.loads.some((l) => l.fault === "normal"))
+      options.push("Predict");
 
-    const pick = options[Math.floor(Math.random() * options.length)];
+    const pick = options[Math.floor(rng() * options.length)];
 
     if (pick === "Rtotal") {
       title = "Find Total Resistance";
       prompt = "Calculate the total resistance of the circuit.";
-      parts.push({
-        id: "rtotal",
-        label: "Rtotal",
-        unit: "Ω",
-        formula:
-          ct === "parallel"
-            ? "1/Rtotal = 1/R1 + 1/R2 + …"
-            : ct === "series"
-            ? "Rtotal = R1 + R2 + …"
-            : "Rtotal = R1",
-        substitution:
-          ct === "parallel"
-            ? `1/Rtotal = ${calc.rows
-                .map((r) => (Number.isFinite(r.r) ? `1/${fmt(r.r)}` : "0"))
-                .join(" + ")}`
-            : ct === "series"
-            ? `Rtotal = ${calc.rows.map((r) => fmt(r.r)).join(" + ")}`
-            : `Rtotal = ${fmt(calc.rows[0]?.r ?? Rtotal)}`,
-        correct: Number.isFinite(Rtotal) ? Rtotal : 0,
-        tol: tolFor("Ω"),
-      });
+      parts.push(buildPart("rtotal", snap, calc));
     } else if (pick === "Itotal") {
       title = "Find Total Current";
       prompt = "Calculate total current in the circuit.";
-      parts.push({
-        id: "itotal",
-        label: "Itotal",
-        unit: "A",
-        formula: fI,
-        substitution: sI,
-        correct: Itotal,
-        tol: tolFor("A"),
-      });
+      parts.push(buildPart("itotal", snap, calc));
     } else if (pick === "Ptotal") {
       title = "Find Total Power";
       prompt = "Calculate total power in the circuit.";
-      parts.push({
-        id: "ptotal",
-        label: "Ptotal",
-        unit: "W",
-        formula: fP,
-        substitution: sP,
-        correct: Ptotal,
-        tol: tolFor("W"),
-      });
+      parts.push(buildPart("ptotal", snap, calc));
     } else if (pick === "Vdrop1") {
-      const r0 = calc.rows[0];
       title = "Find Voltage Drop (Load 1)";
-      prompt = "In a series circuit, voltage drop across a load is V = I × R.";
-      parts.push({
-        id: "v1",
-        label: "V1",
-        unit: "V",
-        formula: "Vn = I × Rn",
-        substitution: `V1 = ${fmt(Itotal)} × ${fmt(r0.r)}`,
-        correct: r0.v,
-        tol: tolFor("V"),
-      });
+      prompt =
+        ct === "combination"
+          ? "Load 1 carries the total current, so its drop is V = I × R."
+          : "In a series circuit, voltage drop across a load is V = I × R.";
+      parts.push({ ...buildPart("v1", snap, calc), label: "V1" });
+    } else if (pick === "KVL") {
+      const k = 1 + Math.floor(rng() * rows);
+      const given = calc.rows
+        .map((r, i) => `V${i + 1} = ${fmt(r.v)} V`)
+        .filter((_, i) => i !== k - 1);
+      title = "Kirchhoff's Voltage Law";
+      prompt = `The source supplies ${fmt(
+        calc.terminalV
+      )} V. Given ${given.join(", ")}, find V${k}.`;
+      parts.push(buildPart(`kvl${k}`, snap, calc));
+    } else if (pick === "KCL") {
+      // in a combination, Load 1 is the series load, not a branch
+      const first = ct === "combination" ? 2 : 1;
+      const k = first + Math.floor(rng() * (rows - first + 1));
+      const given = calc.rows
+        .map((r, i) => ({ n: i + 1, i: r.i }))
+        .filter((b) => b.n >= first && b.n !== k)
+        .map((b) => `I${b.n} = ${fmt(b.i)} A`);
+      title = "Kirchhoff's Current Law";
+      prompt = `The total current is ${fmt(calc.totalI)} A. Given ${given.join(
+        ", "
+      )}, find I${k}.`;
+      parts.push(buildPart(`kcl${k}`, snap, calc));
+    } else if (pick === "Predict") {
+      const q = predictQuestion(snap, calc, rng);
+      title = q.title;
+      prompt = q.prompt;
+      parts.push(...q.parts);
     } else {
-      const r0 = calc.rows[0];
       title = "Find Branch Current (Load 1)";
       prompt = "In a parallel circuit, branch current is In = V / Rn.";
-      parts.push({
-        id: "i1",
-        label: "I1",
-        unit: "A",
-        formula: "In = V / Rn",
-        substitution: `I1 = ${fmt(snap.sourceV)} / ${fmt(r0.r)}`,
-        correct: r0.i,
-        tol: tolFor("A"),
-      });
+      parts.push({ ...buildPart("i1", snap, calc), label: "I1" });
     }
+  } else if (diagnosis) {
+    // Experienced, one faulted load: diagnose it from the readings
+    title = diagnosis.title;
+    prompt = diagnosis.prompt;
+    hidesFaults = true;
+    parts.push(...diagnosis.parts);
   } else {
     // Experienced: multi-part full circuit solve
     title = "Full Circuit Calculation";
@@ -206,119 +762,82 @@ function buildQuestion(
         ? "Solve the series circuit: Rtotal, Itotal, and voltage drop(s)."
         : ct === "parallel"
         ? "Solve the parallel circuit: Rtotal, Itotal, and branch current(s)."
+        : ct === "combination"
+        ? "Solve the series-parallel circuit: Rtotal, Itotal, V1, and branch current(s)."
         : "Solve the circuit: Rtotal, Itotal, and power.";
 
-    // Part 1: Rtotal
-    parts.push({
-      id: "rtotal",
-      label: "Rtotal",
-      unit: "Ω",
-      formula:
-        ct === "parallel"
-          ? "1/Rtotal = 1/R1 + 1/R2 + …"
-          : ct === "series"
-          ? "Rtotal = R1 + R2 + …"
-          : "Rtotal = R1",
-      substitution:
-        ct === "parallel"
-          ? `1/Rtotal = ${calc.rows
-              .map((r) => (Number.isFinite(r.r) ? `1/${fmt(r.r)}` : "0"))
-              .join(" + ")}`
-          : ct === "series"
-          ? `Rtotal = ${calc.rows.map((r) => fmt(r.r)).join(" + ")}`
-          : `Rtotal = ${fmt(calc.rows[0]?.r ?? Rtotal)}`,
-      correct: Number.isFinite(Rtotal) ? Rtotal : 0,
-      tol: tolFor("Ω"),
-    });
-
-    // Part 2: Itotal
-    parts.push({
-      id: "itotal",
-      label: "Itotal",
-      unit: "A",
-      formula: fI,
-      substitution: sI,
-      correct: Itotal,
-      tol: tolFor("A"),
-    });
-
-    // Part 3+: per-load based on circuit type
-    if (ct === "series") {
-      // ask for Vdrops for each load (more boxes = more points, still fair)
-      calc.rows.forEach((r, idx) => {
-        parts.push({
-          id: `v${idx + 1}`,
-          label: `V${idx + 1} (Load ${idx + 1})`,
-          unit: "V",
-          formula: "Vn = I × Rn",
-          substitution: `V${idx + 1} = ${fmt(Itotal)} × ${fmt(r.r)}`,
-          correct: r.v,
-          tol: tolFor("V"),
-        });
-      });
-    } else if (ct === "parallel") {
-      calc.rows.forEach((r, idx) => {
-        parts.push({
-          id: `i${idx + 1}`,
-          label: `I${idx + 1} (Load ${idx + 1})`,
-          unit: "A",
-          formula: "In = V / Rn",
-          substitution: `I${idx + 1} = ${fmt(snap.sourceV)} / ${fmt(r.r)}`,
-          correct: r.i,
-          tol: tolFor("A"),
-        });
-      });
-    } else {
-      // simple
-      parts.push({
-        id: "ptotal",
-        label: "Ptotal",
-        unit: "W",
-        formula: fP,
-        substitution: sP,
-        correct: Ptotal,
-        tol: tolFor("W"),
-      });
-    }
+    // every part, but power only when there is nothing per-load to ask
+    partIdsFor(ct, calc.rows.length)
+      .filter((partId) => partId !== "ptotal" || ct === "simple")
+      .forEach((partId) => parts.push(buildPart(partId, snap, calc)));
   }
 
   // make sure we never generate a question where everything is “0” by design
   // (you said switch open should block questions, so this is mostly fault edge-cases)
-  if (parts.every((p) => Math.abs(p.correct) < 0.000001)) {
-    // fall back to total resistance question (still valid)
-    return buildQuestion("beginner", snap, calc);
+  if (
+    parts.every((p) => p.kind === "number" && Math.abs(p.correct) < 0.000001)
+  ) {
+    // fall back to total resistance question (still valid); asking again
+    // could pick another all-zero question when no current flows at all
+    title = "Find Total Resistance";
+    prompt = "Calculate the total resistance of the circuit.";
+    hidesFaults = false;
+    parts.splice(0, parts.length, buildPart("rtotal", snap, calc));
   }
 
   return {
     id,
     title,
     prompt,
+    difficulty,
     parts,
+    hidesFaults,
     snapshot: snap,
     calc,
   };
 }
 
+/** A question from an instructor's quiz set: their parts, tolerances, prompt. */
+function buildSetQuestion(
+  q: QuizSetQuestion,
+  calc: CalcResult,
+  rng: Rng = Math.random
+): Question {
+  const parts = q.parts.map((p) => {
+    const part = buildPart(p.id, q.snapshot, calc);
+    return p.tol === undefined ? part : { ...part, tol: p.tol };
+  });
+  return {
+    id: uid(rng),
+    title: q.title ?? "Circuit Calculation",
+    prompt: q.prompt ?? `Solve for ${parts.map((p) => p.label).join(", ")}.`,
+    difficulty: parts.length > 1 ? "experienced" : "beginner",
+    parts,
+    snapshot: q.snapshot,
+    calc,
+  };
+}
+
 /* =========================
    Quiz Scenario Generator
    ========================= */
 
-function randomStep05(min: number, max: number) {
+function randomStep05(min: number, max: number, rng: Rng) {
   const steps = Math.round((max - min) / 0.5);
-  const k = Math.floor(Math.random() * (steps + 1));
+  const k = Math.floor(rng() * (steps + 1));
   return min + k * 0.5;
 }
 
-function pickFaultForQuiz(ct: CircuitType, idx: number): FaultType {
+function pickFaultForQuiz(ct: CircuitType, idx: number, rng: Rng): FaultType {
   // Keep it challenging but not “everyone answers 0”.
   // - Disallow OPEN in simple/series (too trivial)
   // - Allow OPEN in parallel (branch open is realistic)
   // - Allow at most one SHORT
-  const r = Math.random();
+  const r = rng();
   if (r < 0.72) return "normal";
   if (r < 0.87) return "high";
 
-  if (ct === "parallel") {
+  if (ct === "parallel" || (ct === "combination" && idx > 0)) {
     // sometimes open branch
     return r < 0.94 ? "open" : "short";
   }
@@ -327,23 +846,43 @@ function pickFaultForQuiz(ct: CircuitType, idx: number): FaultType {
   return "short";
 }
 
-function generateQuizScenario(): CircuitSnapshot {
-  const ctPick = Math.random();
-  const circuitType: CircuitType =
-    ctPick < 0.25 ? "simple" : ctPick < 0.6 ? "series" : "parallel";
+// How often each circuit type comes up, before the quiz setup filters them
+const QUIZ_CIRCUIT_WEIGHTS: Record<CircuitType, number> = {
+  simple: 0.25,
+  series: 0.35,
+  parallel: 0.4,
+  combination: 0.3,
+};
+
+/** A random quiz circuit; the same `rng` stream gives the same circuit. */
+function generateQuizScenario(rng: Rng, config: QuizConfig): CircuitSnapshot {
+  const types = config.circuitTypes;
+  const weights = types.map((t) => QUIZ_CIRCUIT_WEIGHTS[t]);
+  let ctPick = rng() * weights.reduce((a, b) => a + b, 0);
+  let circuitType = types[types.length - 1];
+  for (let i = 0; i < types.length; i++) {
+    if (ctPick < weights[i]) {
+      circuitType = types[i];
+      break;
+    }
+    ctPick -= weights[i];
+  }
 
   const loadCount =
     circuitType === "simple"
       ? 1
-      : ((2 + Math.floor(Math.random() * 4)) as 2 | 3 | 4 | 5);
+      : circuitType === "combination"
+      ? 3 + Math.floor(rng() * 3)
+      : 2 + Math.floor(rng() * 4);
 
   const loads: LoadConfig[] = [];
   let shortCount = 0;
 
   for (let i = 0; i < loadCount; i++) {
-    const rUser = randomStep05(1, 25);
+    const rUser = randomStep05(1, 25, rng);
 
-    let fault = pickFaultForQuiz(circuitType, i);
+    let fault = pickFaultForQuiz(circuitType, i, rng);
+    if (config.faultTypes.indexOf(fault) < 0) fault = "normal";
 
     if (fault === "short") {
       shortCount++;
@@ -354,36 +893,93 @@ function generateQuizScenario(): CircuitSnapshot {
   }
 
   // In parallel, avoid the “everything open” scenario
-  if (circuitType === "parallel" && loads.every((l) => l.fault === "open")) {
-    loads[0].fault = "normal";
+  const branches = circuitType === "combination" ? loads.slice(1) : loads;
+  if (
+    (circuitType === "parallel" || circuitType === "combination") &&
+    branches.every((l) => l.fault === "open")
+  ) {
+    branches[0].fault = "normal";
   }
 
+  // a fixed voltage unless the setup gives a range (in slider steps)
+  const { voltageMin, voltageMax } = config;
+  const sourceV =
+    voltageMax > voltageMin
+      ? voltageMin +
+        VOLTAGE_STEP *
+          Math.floor(rng() * ((voltageMax - voltageMin) / VOLTAGE_STEP + 1))
+      : voltageMin;
+
   return {
     circuitType,
-    sourceV: 12, // keep quiz consistent unless you want random V later
+    sourceV,
     loadCount,
     switchClosed: true,
     loads,
   };
 }
 
+/**
+ * Question `step` of a quiz: from the instructor's set if there is one,
+ * otherwise generated from the seed under the quiz setup.
+ */
+function makeQuizQuestion(
+  step: number,
+  set: QuizSet | null,
+  seed: number,
+  config: QuizConfig
+): Question {
+  // each question has its own stream, so question n can be regenerated
+  // on its own when regrading
+  const rng = itemRng(seed, step);
+  const setQuestion = set ? set.questions[step - 1] : null;
+  const snap = setQuestion
+    ? setQuestion.snapshot
+    : generateQuizScenario(rng, config);
+  const c = calcSnapshot(snap);
+
+  const diff: Difficulty = isBeginnerStep(config, step)
+    ? "beginner"
+    : "experienced";
+  return setQuestion
+    ? buildSetQuestion(setQuestion, c, rng)
+    : buildQuestion(diff, snap, c, rng);
+}
+
 /* =========================
    App
    ========================= */
 
 export default function App() {
   const [mode, setMode] = useState<Mode>("demo");
+  // opened from a read-only presentation link
+  const [presenting, setPresenting] = useState<boolean>(false);
 
   // Practice controls
   const [difficulty, setDifficulty] = useState<Difficulty>("beginner");
-  const [showFormulas, setShowFormulas] = useState<boolean>(true);
 
-  // Quiz state (in-memory only)
+  // Quiz state (the current run; finished questions go to history)
+  const [quizId, setQuizId] = useState<string>("");
+  const [quizStartedAt, setQuizStartedAt] = useState<number>(0);
   const [quizStep, setQuizStep] = useState<number>(1);
   const [quizScore, setQuizScore] = useState<number>(0);
   const [quizPossible, setQuizPossible] = useState<number>(0);
   const [quizComplete, setQuizComplete] = useState<boolean>(false);
   const [quizQuestion, setQuizQuestion] = useState<Question | null>(null);
+  // an instructor's fixed quiz, or null for a random one
+  const [quizSet, setQuizSet] = useState<QuizSet | null>(null);
+  // a random quiz is generated from its seed: the same seed, the same quiz
+  const [quizSeed, setQuizSeed] = useState<number>(0);
+  const [seedInput, setSeedInput] = useState<string>("");
+  // the setup screen, shown before a random quiz starts
+  const [quizSetup, setQuizSetup] = useState<boolean>(false);
+  const [quizConfig, setQuizConfig] = useState<QuizConfig>(loadQuizConfig);
+  useEffect(() => saveQuizConfig(quizConfig), [quizConfig]);
+  const quizTotal = quizSet ? quizSet.questions.length : quizConfig.questions;
+
+  // Time limit: when the quiz (or the current question) runs out, if any
+  const [quizDeadline, setQuizDeadline] = useState<number | null>(null);
+  const [now, setNow] = useState<number>(() => Date.now());
 
   const [circuitType, setCircuitType] = useState<CircuitType>("simple");
   const [sourceVoltage, setSourceVoltage] = useState<number>(12);
@@ -392,11 +988,52 @@ export default function App() {
   const [switchClosed, setSwitchClosed] = useState<boolean>(true);
 
   const [loads, setLoads] = useState<LoadConfig[]>(DEFAULT_LOADS);
+  const [showInrush, setShowInrush] = useState<boolean>(false);
+
+  // Saved attempts and quizzes, persisted in localStorage
+  const [history, setHistory] = useState<History>(() => loadHistory());
+  useEffect(() => saveHistory(history), [history]);
+
+  function recordAttempt(
+    source: AttemptSource,
+    q: Question,
+    answers: Record<string, string>,
+    hints: Record<string, number> = {}
+  ) {
+    const attempt: Attempt = {
+      id: q.id,
+      source,
+      quizId: source === "quiz" ? quizId : undefined,
+      timestamp: Date.now(),
+      title: q.title,
+      difficulty: q.difficulty,
+      snapshot: q.snapshot,
+      parts: q.parts.map((p) => {
+        const answer = answers[p.id] ?? "";
+        const grade = gradeAnswer(answer, p);
+        return {
+          id: p.id,
+          label: p.label,
+          quantity: quantityOf(p.id),
+          answer,
+          correct: p.kind === "number" ? p.correct : p.answer,
+          ok: grade.ok,
+          mistake: grade.misconception?.label,
+          hints: hints[p.id] || undefined,
+        };
+      }),
+    };
+    setHistory((h) => addAttempt(h, attempt));
+  }
 
-  const controlsLocked = mode === "quiz";
-
+  // Quiz and troubleshoot circuits are ideal and unprotected; a presentation
+  // solves the shared circuit in full but locks its inputs
+  const fixedCircuit = mode === "quiz" || mode === "troubleshoot";
+  const controlsLocked = fixedCircuit || presenting;
   const activeLoadCount = useMemo(() => {
     if (circuitType === "simple") return 1;
+    // combination needs a series load plus at least two branches
+    if (circuitType === "combination") return clamp(loadCount, 3, 5);
     return clamp(loadCount, 2, 5);
   }, [circuitType, loadCount]);
 
@@ -405,14 +1042,187 @@ export default function App() {
     [loads, activeLoadCount]
   );
 
-  const calc = useMemo(() => {
-    return calcCircuit({
+  // Source-side protection (quiz / troubleshoot circuits are unprotected)
+  const [fuse, setFuse] = useState<FuseConfig>({
+    kind: "fuse",
+    rating: 15,
+    blown: false,
+  });
+  const activeFuse = fixedCircuit ? undefined : fuse;
+
+  // Ideal source or battery model (quiz / troubleshoot use the ideal source)
+  const [sourceKind, setSourceKind] = useState<SourceKind>("ideal");
+  const [battery, setBattery] = useState<BatteryConfig>({
+    ocv: 12.6,
+    internalR: 0.05,
+    soc: 1,
+  });
+  const activeBattery =
+    sourceKind === "battery" && !fixedCircuit ? battery : undefined;
+
+  // Relay control: the switch drives a relay coil, the contacts feed the loads
+  const [relayOn, setRelayOn] = useState<boolean>(false);
+  const [relay, setRelay] = useState<RelayConfig>({
+    coilR: 80,
+    pullInV: 8,
+    fault: "normal",
+  });
+  const activeRelay = relayOn && !fixedCircuit ? relay : undefined;
+
+  // Faults on wire segments (feed, links, branch legs, ground return)
+  const [wireFaults, setWireFaults] = useState<WireFaults>({});
+  const segments = useMemo(
+    () => wireSegments(circuitType, activeLoadCount),
+    [circuitType, activeLoadCount]
+  );
+
+  const calcOptions = useMemo<CalcOptions>(
+    () => ({
       circuitType,
       sourceV: sourceVoltage,
       switchClosed,
       loads: activeLoads,
-    });
-  }, [circuitType, sourceVoltage, switchClosed, activeLoads]);
+      fuse: activeFuse,
+      wireFaults,
+      battery: activeBattery,
+      relay: activeRelay,
+    }),
+    [
+      circuitType,
+      sourceVoltage,
+      switchClosed,
+      activeLoads,
+      activeFuse,
+      wireFaults,
+      activeBattery,
+      activeRelay,
+    ]
+  );
+  const calc = useMemo(() => calcCircuit(calcOptions), [calcOptions]);
+
+  // "What changed": explain each new result against the one before it, for
+  // changes the student makes (quiz and troubleshoot circuits aren't theirs)
+  const lastCircuit = useRef<CircuitState | null>(null);
+  const [changeNote, setChangeNote] = useState<string[]>([]);
+  useEffect(() => {
+    const prev = lastCircuit.current;
+    const next = { options: calcOptions, calc };
+    lastCircuit.current = next;
+    if (!prev || controlsLocked) {
+      setChangeNote([]);
+      return;
+    }
+    const note = explainChange(prev, next);
+    if (note) setChangeNote(note);
+  }, [calcOptions, calc, controlsLocked]);
+
+  // Compare mode: the same circuit with every fault cleared
+  const healthy = useMemo(() => {
+    if (mode !== "compare") return null;
+    const options = healthyOptions(calcOptions);
+    return { options, calc: calcCircuit(options) };
+  }, [mode, calcOptions]);
+
+  // What-if graphs: one input swept across a range (demo mode)
+  const [demoView, setDemoView] = useState<"math" | "graphs">("math");
+  const [sweep, setSweep] = useState<Sweep>(() => defaultSweep("sourceV"));
+  // a swept load that has since been removed falls back to the source
+  const activeSweep =
+    sweep.input === "sourceV" || sweep.input < activeLoadCount
+      ? sweep
+      : defaultSweep("sourceV");
+
+  // a blown fuse stays blown until it is replaced
+  useEffect(() => {
+    if (calc.fuseTripI !== undefined) {
+      setFuse((f) => ({ ...f, blown: true, tripI: calc.fuseTripI }));
+    }
+  }, [calc.fuseTripI]);
+
+  function replaceFuse() {
+    setFuse((f) => ({ kind: f.kind, rating: f.rating, blown: false }));
+  }
+
+  // Multimeter
+  const [meterOn, setMeterOn] = useState<boolean>(false);
+  const [meterMode, setMeterMode] = useState<MeterMode>("volts");
+  const [probes, setProbes] = useState<{
+    red: ProbePoint | null;
+    black: ProbePoint | null;
+  }>({ red: null, black: null });
+
+  // probe points move when the layout changes
+  useEffect(() => {
+    setProbes({ red: null, black: null });
+  }, [circuitType, activeLoadCount]);
+
+  const meterReading = useMemo(
+    () =>
+      readMeter(
+        calc.netlist,
+        meterMode,
+        probes.red?.node ?? null,
+        probes.black?.node ?? null,
+        switchClosed && calc.sourceV > 0
+      ),
+    [calc.netlist, calc.sourceV, meterMode, probes, switchClosed]
+  );
+
+  function placeProbe(p: ProbePoint) {
+    // first click places red, second black, third starts over
+    if (probes.red && !probes.black) {
+      setProbes({ red: probes.red, black: p });
+      logMeasurement(meterMode, probes.red.node, p.node);
+    } else {
+      setProbes({ red: p, black: null });
+    }
+  }
+
+  function changeMeterMode(m: MeterMode) {
+    setMeterMode(m);
+    if (m !== meterMode && probes.red && probes.black) {
+      logMeasurement(m, probes.red.node, probes.black.node);
+    }
+  }
+
+  // Troubleshoot state: a hidden fault, the readings taken, the diagnosis
+  const [tsScenario, setTsScenario] = useState<TroubleshootScenario | null>(
+    null
+  );
+  const [tsLog, setTsLog] = useState<Measurement[]>([]);
+  const [tsGuess, setTsGuess] = useState<HiddenFault>({
+    component: "L1",
+    fault: "open",
+  });
+  const [tsResult, setTsResult] = useState<TroubleshootResult | null>(null);
+
+  function logMeasurement(m: MeterMode, red: string, black: string) {
+    if (mode !== "troubleshoot" || tsResult) return;
+    const r = readMeter(
+      calc.netlist,
+      m,
+      red,
+      black,
+      switchClosed && calc.sourceV > 0
+    );
+    setTsLog((prev) => [...prev, { mode: m, red, black, display: r.display }]);
+  }
+
+  function startTroubleshoot() {
+    const sc = generateTroubleshootScenario();
+    applySnapshotToUI(sc);
+    setTsScenario(sc);
+    setTsLog([]);
+    setTsGuess({ component: "L1", fault: "open" });
+    setTsResult(null);
+    setMeterOn(true);
+    setProbes({ red: null, black: null });
+  }
+
+  function submitDiagnosis() {
+    if (!tsScenario) return;
+    setTsResult(gradeDiagnosis(tsScenario, tsGuess, tsLog.length));
+  }
 
   function updateLoad(idx: number, patch: Partial<LoadConfig>) {
     setLoads((prev) => {
@@ -423,11 +1233,16 @@ export default function App() {
   }
 
   function resetQuiz() {
+    setQuizId(uid());
+    setQuizStartedAt(Date.now());
     setQuizStep(1);
     setQuizScore(0);
     setQuizPossible(0);
     setQuizComplete(false);
     setQuizQuestion(null);
+    setQuizReview([]);
+    setReviewIdx(null);
+    setQuizDeadline(null);
   }
 
   function applySnapshotToUI(snap: CircuitSnapshot) {
@@ -435,6 +1250,7 @@ export default function App() {
     setSourceVoltage(snap.sourceV);
     setLoadCount(snap.loadCount);
     setSwitchClosed(snap.switchClosed);
+    setWireFaults(snap.wireFaults ?? {});
 
     // overwrite the first N loads, keep array length 5
     setLoads((prev) => {
@@ -446,21 +1262,193 @@ export default function App() {
     });
   }
 
-  function startNextQuizQuestion(step: number) {
-    const snap = generateQuizScenario();
-    applySnapshotToUI(snap);
-
-    const c = calcCircuit({
-      circuitType: snap.circuitType,
-      sourceV: snap.sourceV,
-      switchClosed: snap.switchClosed,
-      loads: snap.loads,
+  // Shareable links: restore the circuit from the URL once, on load
+  useEffect(() => {
+    const shared = decodeShareLink(window.location.search);
+    if (!shared) return;
+    applySnapshotToUI(shared.snapshot);
+    setMode(shared.mode);
+    setPresenting(shared.presentation);
+  }, []);
+
+  function shareQuery(presentation: boolean) {
+    return encodeShareLink({
+      mode: mode === "practice" ? "practice" : "demo",
+      presentation,
+      snapshot: {
+        circuitType,
+        sourceV: sourceVoltage,
+        loadCount: activeLoadCount,
+        switchClosed,
+        loads: activeLoads,
+        wireFaults,
+      },
     });
+  }
+
+  // ...and keep the address bar in step with the demo / practice circuit
+  // (quiz and troubleshoot circuits stay out of it)
+  const shareable = mode === "demo" || mode === "practice";
+  const currentQuery = shareable ? shareQuery(presenting) : "";
+  useEffect(() => {
+    const { pathname, hash } = window.location;
+    const url = currentQuery ? `${pathname}?${currentQuery}` : pathname;
+    window.history.replaceState(null, "", url + hash);
+  }, [currentQuery]);
+
+  const [shareNote, setShareNote] = useState<string>("");
+
+  function copyShareLink(presentation: boolean) {
+    const { origin, pathname } = window.location;
+    const url = `${origin}${pathname}?${shareQuery(presentation)}`;
+    const done = () =>
+      setShareNote(presentation ? "Presentation link copied." : "Link copied.");
+    if (navigator.clipboard) {
+      navigator.clipboard
+        .writeText(url)
+        .then(done, () => window.prompt("Copy this link:", url));
+    } else {
+      window.prompt("Copy this link:", url);
+    }
+  }
+
+  // Exports: the schematic as drawn, and the readings behind the Outputs panel
+  const schematicRef = useRef<HTMLDivElement>(null);
+  const [exportNote, setExportNote] = useState<string>("");
+
+  function schematicSvg() {
+    return schematicRef.current?.querySelector<SVGSVGElement>("svg.circuitSvg");
+  }
+
+  function exportName(ext: string) {
+    return `electrasim-${circuitType}.${ext}`;
+  }
+
+  function exportSvg() {
+    const svg = schematicSvg();
+    if (!svg) return;
+    downloadText(exportName("svg"), standaloneSvg(svg), "image/svg+xml");
+  }
+
+  function exportPng() {
+    const svg = schematicSvg();
+    if (!svg) return;
+    setExportNote("");
+    svgToPng(svg).then(
+      (png) => downloadBlob(exportName("png"), png),
+      () => setExportNote("This browser couldn't draw the schematic as a PNG.")
+    );
+  }
+
+  function exportCsv() {
+    const faults = [
+      ...activeLoads
+        .map((l, k) => ({ label: `Load ${k + 1}`, fault: l.fault }))
+        .filter((f) => f.fault !== "normal"),
+      ...segments
+        .map((seg) => ({ label: seg.label, fault: wireFaults[seg.id] }))
+        .filter((f) => f.fault && f.fault !== "normal"),
+    ].map((f) => `${f.label}: ${prettyStatus(f.fault)}`);
+    if (activeRelay && activeRelay.fault !== "normal") {
+      faults.push(`Relay: ${RELAY_FAULT_LABELS[activeRelay.fault]}`);
+    }
+    if (calc.fuseBlown) faults.push("Fuse blown");
+
+    const csv = resultsCsv(
+      [
+        ["Circuit", describeCircuit(circuitType, activeLoadCount)],
+        ["Source Voltage (V)", String(round2(calc.sourceV))],
+        ["Switch", switchClosed ? "Closed" : "Open"],
+        ["Faults", faults.length ? faults.join("; ") : "None"],
+      ],
+      calc,
+      prettyStatus
+    );
+    downloadText(exportName("csv"), csv, "text/csv");
+  }
 
-    const diff: Difficulty = step <= 4 ? "beginner" : "experienced";
-    const q = buildQuestion(diff, snap, c);
+  function stopPresenting() {
+    setPresenting(false);
+    setShareNote("");
+  }
 
+  function startNextQuizQuestion(
+    step: number,
+    set: QuizSet | null,
+    seed: number
+  ) {
+    const q = makeQuizQuestion(step, set, seed, quizConfig);
+    applySnapshotToUI(q.snapshot);
     setQuizQuestion(q);
+    setQuizRejected(false);
+    if (!set && quizConfig.timeLimit === "question") {
+      startClock(quizConfig.timeLimitSec);
+    }
+  }
+
+  function startClock(sec: number) {
+    setNow(Date.now());
+    setQuizDeadline(Date.now() + sec * 1000);
+  }
+
+  function startQuiz(set: QuizSet | null, seed: number = randomSeed()) {
+    setMode("quiz");
+    setPracticeQuestion(null);
+    resetQuiz();
+    setQuizSetup(false);
+    setQuizSet(set);
+    setQuizSeed(seed);
+    // the time limit is a Quiz Setup choice; an instructor's set is untimed
+    if (!set && quizConfig.timeLimit === "quiz") {
+      startClock(quizConfig.timeLimitSec);
+    }
+    startNextQuizQuestion(1, set, seed);
+  }
+
+  function openQuizSetup() {
+    setMode("quiz");
+    setPracticeQuestion(null);
+    resetQuiz();
+    setQuizSet(null);
+    setQuizSetup(true);
+  }
+
+  function startSeededQuiz() {
+    const seed = parseSeed(seedInput);
+    if (seed === null) return;
+    startQuiz(null, seed);
+  }
+
+  // Quiz set being authored (demo mode): the current circuit can be added
+  const [draftSet, setDraftSet] = useState<QuizSet>(() =>
+    emptyQuizSet("Untitled quiz")
+  );
+  const [setErrors, setSetErrors] = useState<string[]>([]);
+
+  function addCircuitToSet(parts: QuizSetPart[], prompt: string) {
+    const question: QuizSetQuestion = {
+      snapshot: {
+        circuitType,
+        sourceV: sourceVoltage,
+        loadCount: activeLoadCount,
+        switchClosed,
+        loads: cloneLoads(loads, activeLoadCount),
+        wireFaults: { ...wireFaults },
+      },
+      parts,
+      prompt: prompt.trim() || undefined,
+    };
+    setDraftSet((s) => ({ ...s, questions: [...s.questions, question] }));
+  }
+
+  function importQuizSet(text: string) {
+    const res = parseQuizSet(text);
+    if (res.ok) {
+      setDraftSet(res.set);
+      setSetErrors([]);
+    } else {
+      setSetErrors(res.errors);
+    }
   }
 
   // Practice question state
@@ -471,13 +1459,18 @@ export default function App() {
     Record<string, string>
   >({});
   const [practiceChecked, setPracticeChecked] = useState<boolean>(false);
-  const [practicePoints, setPracticePoints] = useState<{
-    got: number;
-    possible: number;
-  } | null>(null);
+  // Check was sent back because an answer couldn't be read
+  const [practiceRejected, setPracticeRejected] = useState<boolean>(false);
+  const [practicePoints, setPracticePoints] = useState<PracticePoints | null>(
+    null
+  );
+  // hint tiers revealed, per part id
+  const [practiceHints, setPracticeHints] = useState<Record<string, number>>(
+    {}
+  );
 
   function newPracticeQuestion() {
-    if (!switchClosed) return;
+    if (!switchClosed || calc.fuseBlown) return;
 
     const snap: CircuitSnapshot = {
       circuitType,
@@ -485,6 +1478,9 @@ export default function App() {
       loadCount: activeLoadCount,
       switchClosed,
       loads: cloneLoads(loads, activeLoadCount),
+      wireFaults: { ...wireFaults },
+      battery: activeBattery,
+      relay: activeRelay,
     };
 
     const c = calcCircuit({
@@ -492,71 +1488,204 @@ export default function App() {
       sourceV: snap.sourceV,
       switchClosed: snap.switchClosed,
       loads: snap.loads,
+      wireFaults: snap.wireFaults,
+      battery: snap.battery,
+      relay: snap.relay,
     });
 
+    if (!c.hasFlow) return; // an open fault somewhere: nothing to work out
+
     const q = buildQuestion(difficulty, snap, c);
 
     setPracticeQuestion(q);
     setPracticeAnswers({});
     setPracticeChecked(false);
+    setPracticeRejected(false);
     setPracticePoints(null);
+    setPracticeHints({});
   }
 
   function checkPractice() {
     if (!practiceQuestion) return;
+    // an answer that can't be read is sent back to fix, not marked wrong
+    if (hasUnreadable(practiceQuestion, practiceAnswers)) {
+      setPracticeRejected(true);
+      return;
+    }
+    setPracticeRejected(false);
 
     let got = 0;
     let possible = practiceQuestion.parts.length;
+    let hints = 0;
 
     for (const part of practiceQuestion.parts) {
-      const raw = practiceAnswers[part.id] ?? "";
-      const n = parseStudentNumber(raw);
-      if (n === null) continue;
-      if (withinTol(n, part.correct, part.tol)) got += 1;
+      const used = practiceHints[part.id] ?? 0;
+      hints += used;
+      if (gradeAnswer(practiceAnswers[part.id] ?? "", part).ok) {
+        got += Math.max(0, 1 - used * HINT_PENALTY);
+      }
     }
 
+    // re-checking edited answers doesn't count as a new attempt
+    if (!practiceChecked) {
+      recordAttempt(
+        "practice",
+        practiceQuestion,
+        practiceAnswers,
+        practiceHints
+      );
+    }
     setPracticeChecked(true);
-    setPracticePoints({ got, possible });
+    setPracticePoints({ got: round2(got), possible, hints });
   }
 
   // Quiz answer state (per question)
   const [quizAnswers, setQuizAnswers] = useState<Record<string, string>>({});
   const [quizChecked, setQuizChecked] = useState<boolean>(false);
+  // a submit was sent back because an answer couldn't be read
+  const [quizRejected, setQuizRejected] = useState<boolean>(false);
 
-  function submitQuizAnswer() {
-    if (!quizQuestion) return;
+  // Post-quiz review: every question as answered, and the one being viewed
+  const [quizReview, setQuizReview] = useState<ReviewItem[]>([]);
+  const [reviewIdx, setReviewIdx] = useState<number | null>(null);
 
-    // grade this question
-    let got = 0;
-    let possible = quizQuestion.parts.length;
+  function reviewQuestion(idx: number) {
+    setReviewIdx(idx);
+    applySnapshotToUI(quizReview[idx].question.snapshot);
+  }
 
-    for (const part of quizQuestion.parts) {
-      const raw = quizAnswers[part.id] ?? "";
-      const n = parseStudentNumber(raw);
-      if (n === null) continue;
-      if (withinTol(n, part.correct, part.tol)) got += 1;
-    }
+  // troubleshoot mode and diagnosis questions hide where the fault is
+  const faultsHidden =
+    mode === "troubleshoot" ||
+    (mode === "quiz" && !quizComplete && !!quizQuestion?.hidesFaults) ||
+    (mode === "practice" &&
+      !!practiceQuestion?.hidesFaults &&
+      !practiceChecked);
+
+  /** Grade finished questions into the run, and into history. */
+  function gradeQuizItems(items: ReviewItem[], finished: boolean) {
+    let got = 0;
+    let possible = 0;
+    items.forEach(({ question, answers }) => {
+      for (const part of question.parts) {
+        possible += 1;
+        if (gradeAnswer(answers[part.id] ?? "", part).ok) got += 1;
+      }
+      recordAttempt("quiz", question, answers);
+    });
 
     // update totals
     setQuizScore((prev) => prev + got);
     setQuizPossible((prev) => prev + possible);
+    setQuizReview((prev) => [...prev, ...items]);
+
+    if (finished) {
+      setHistory((h) =>
+        addQuiz(h, {
+          id: quizId,
+          startedAt: quizStartedAt,
+          finishedAt: Date.now(),
+          score: quizScore + got,
+          possible: quizPossible + possible,
+          setTitle: quizSet?.title,
+          seed: quizSet ? undefined : formatSeed(quizSeed),
+          config: quizSet ? undefined : quizConfig,
+        })
+      );
+    }
+  }
+
+  function submitQuizAnswer(timedOut = false) {
+    // already graded, waiting to advance
+    if (!quizQuestion || quizChecked) return;
+
+    // an answer that can't be read is sent back to fix, not marked wrong
+    if (!timedOut && hasUnreadable(quizQuestion, quizAnswers)) {
+      setQuizRejected(true);
+      return;
+    }
+    setQuizRejected(false);
+
+    // whatever was typed when time ran out doesn't count
+    const answers = timedOut ? {} : quizAnswers;
+    if (timedOut) setQuizAnswers({});
+
+    const finished = quizStep >= quizTotal;
+    gradeQuizItems([{ question: quizQuestion, answers }], finished);
     setQuizChecked(true);
 
     // advance after a short delay (so students can see feedback)
     setTimeout(() => {
       const nextStep = quizStep + 1;
 
-      if (quizStep >= QUIZ_TOTAL_QUESTIONS) {
+      if (finished) {
         setQuizComplete(true);
       } else {
         setQuizStep(nextStep);
         setQuizAnswers({});
         setQuizChecked(false);
-        startNextQuizQuestion(nextStep);
+        startNextQuizQuestion(nextStep, quizSet, quizSeed);
       }
     }, 600);
   }
 
+  /** The whole quiz ran out: this and every later question is unanswered. */
+  function timeOutQuiz() {
+    if (!quizQuestion || quizChecked) return;
+    const items: ReviewItem[] = [{ question: quizQuestion, answers: {} }];
+    for (let step = quizStep + 1; step <= quizTotal; step++) {
+      items.push({
+        question: makeQuizQuestion(step, quizSet, quizSeed, quizConfig),
+        answers: {},
+      });
+    }
+    gradeQuizItems(items, true);
+    setQuizAnswers({});
+    setQuizComplete(true);
+  }
+
+  const clockRunning =
+    mode === "quiz" && !quizComplete && quizDeadline !== null;
+  const timeLeft =
+    quizDeadline === null ? null : Math.max(0, (quizDeadline - now) / 1000);
+
+  useEffect(() => {
+    if (!clockRunning) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(timer);
+  }, [clockRunning]);
+
+  useEffect(() => {
+    if (!clockRunning || timeLeft !== 0 || quizChecked) return;
+    if (quizConfig.timeLimit === "quiz") timeOutQuiz();
+    else submitQuizAnswer(true);
+  });
+
+  // Freeform circuit builder
+  const [builder, setBuilder] = useState<BuilderCircuit>(emptyBuilder);
+  const [builderSelected, setBuilderSelected] = useState<string | null>(null);
+  const builderResult = useMemo(() => solveBuilder(builder), [builder]);
+
+  // Printable worksheet: replaces the app until it is closed
+  const [worksheet, setWorksheet] = useState<Worksheet | null>(null);
+  const [answerKey, setAnswerKey] = useState<boolean>(false);
+
+  function printWorksheet() {
+    setWorksheet(makeWorksheet(quizConfig, randomSeed()));
+    setAnswerKey(false);
+  }
+
+  if (worksheet) {
+    return (
+      <WorksheetView
+        worksheet={worksheet}
+        answerKey={answerKey}
+        onAnswerKey={setAnswerKey}
+        onClose={() => setWorksheet(null)}
+      />
+    );
+  }
+
   return (
     <div className="appRoot">
       <header className="topBar">
@@ -580,6 +1709,7 @@ export default function App() {
               <div className="segmented">
                 <SegButton
                   active={mode === "demo"}
+                  disabled={presenting}
                   onClick={() => {
                     setMode("demo");
                     setPracticeQuestion(null);
@@ -591,6 +1721,7 @@ export default function App() {
 
                 <SegButton
                   active={mode === "practice"}
+                  disabled={presenting}
                   onClick={() => {
                     setMode("practice");
                     resetQuiz();
@@ -602,30 +1733,96 @@ export default function App() {
 
                 <SegButton
                   active={mode === "quiz"}
+                  disabled={presenting}
+                  onClick={openQuizSetup}
+                >
+                  Quiz
+                </SegButton>
+
+                <SegButton
+                  active={mode === "troubleshoot"}
+                  disabled={presenting}
                   onClick={() => {
-                    setMode("quiz");
+                    setMode("troubleshoot");
                     setPracticeQuestion(null);
                     resetQuiz();
-                    // question 1
-                    startNextQuizQuestion(1);
+                    startTroubleshoot();
                   }}
                 >
-                  Quiz
+                  Troubleshoot
+                </SegButton>
+
+                <SegButton
+                  active={mode === "compare"}
+                  disabled={presenting}
+                  onClick={() => {
+                    setMode("compare");
+                    setPracticeQuestion(null);
+                    resetQuiz();
+                  }}
+                >
+                  Compare
+                </SegButton>
+
+                <SegButton
+                  active={mode === "builder"}
+                  disabled={presenting}
+                  onClick={() => {
+                    setMode("builder");
+                    setPracticeQuestion(null);
+                    resetQuiz();
+                  }}
+                >
+                  Builder
+                </SegButton>
+
+                <SegButton
+                  active={mode === "progress"}
+                  disabled={presenting}
+                  onClick={() => {
+                    setMode("progress");
+                    setPracticeQuestion(null);
+                    resetQuiz();
+                  }}
+                >
+                  Progress
                 </SegButton>
               </div>
 
-              {/* Practice toggles */}
-              {mode === "practice" && (
-                <>
+              {presenting ? (
+                <div className="inlineRow">
+                  <span className="hintText">
+                    Presentation link: controls locked.
+                  </span>
+                  <button className="secondaryButton" onClick={stopPresenting}>
+                    Unlock
+                  </button>
+                </div>
+              ) : (
+                shareable && (
                   <div className="inlineRow">
-                    <span className="controlLabelSmall">Show formulas</span>
-                    <input
-                      type="checkbox"
-                      checked={showFormulas}
-                      onChange={() => setShowFormulas((s) => !s)}
-                    />
+                    <button
+                      className="secondaryButton"
+                      onClick={() => copyShareLink(false)}
+                    >
+                      Copy Link
+                    </button>
+                    <button
+                      className="secondaryButton"
+                      onClick={() => copyShareLink(true)}
+                    >
+                      Presentation Link
+                    </button>
                   </div>
+                )
+              )}
+              {shareNote && !presenting && (
+                <div className="hintText">{shareNote}</div>
+              )}
 
+              {/* Practice toggles */}
+              {mode === "practice" && (
+                <>
                   <div className="inlineRow">
                     <span className="controlLabelSmall">Difficulty</span>
                     <div className="segmented small">
@@ -645,6 +1842,32 @@ export default function App() {
                   </div>
                 </>
               )}
+
+              {/* Quiz seed */}
+              {mode === "quiz" && (
+                <>
+                  <div className="controlRow">
+                    <span className="controlLabelSmall">Quiz seed</span>
+                    <input
+                      className="qaInput seedInput"
+                      value={seedInput}
+                      placeholder={quizSet ? "" : formatSeed(quizSeed)}
+                      onChange={(e) => setSeedInput(e.target.value)}
+                    />
+                    <button
+                      className="secondaryButton"
+                      disabled={parseSeed(seedInput) === null}
+                      onClick={startSeededQuiz}
+                    >
+                      Start
+                    </button>
+                  </div>
+                  <div className="hintText">
+                    Enter a seed to take exactly the same quiz as someone else
+                    with the same setup.
+                  </div>
+                </>
+              )}
             </div>
 
             <div className="divider" />
@@ -674,6 +1897,13 @@ export default function App() {
                 >
                   Parallel
                 </SegButton>
+                <SegButton
+                  active={circuitType === "combination"}
+                  onClick={() => setCircuitType("combination")}
+                  disabled={controlsLocked}
+                >
+                  Series-Parallel
+                </SegButton>
               </div>
 
               <div className="controlRow">
@@ -681,7 +1911,7 @@ export default function App() {
                 <input
                   className="slider"
                   type="range"
-                  min={2}
+                  min={circuitType === "combination" ? 3 : 2}
                   max={5}
                   step={1}
                   value={activeLoadCount}
@@ -699,30 +1929,280 @@ export default function App() {
             {/* Source */}
             <div className="controlGroup">
               <div className="controlLabel">Source Settings</div>
-              <div className="controlRow">
-                <span className="controlLabelSmall">Voltage</span>
-                <input
-                  className="slider"
-                  type="range"
-                  min={0}
-                  max={24}
-                  step={3}
-                  value={sourceVoltage}
-                  disabled={controlsLocked}
-                  onChange={(e) =>
-                    setSourceVoltage(parseInt(e.target.value, 10))
-                  }
-                />
-                <div className="readout">{sourceVoltage} V</div>
-              </div>
+              {!fixedCircuit && (
+                <div className="controlRow">
+                  <span className="controlLabelSmall">Source</span>
+                  <div className="segmented small">
+                    <SegButton
+                      disabled={controlsLocked}
+                      active={sourceKind === "ideal"}
+                      onClick={() => setSourceKind("ideal")}
+                    >
+                      Ideal Source
+                    </SegButton>
+                    <SegButton
+                      disabled={controlsLocked}
+                      active={sourceKind === "battery"}
+                      onClick={() => setSourceKind("battery")}
+                    >
+                      Battery
+                    </SegButton>
+                  </div>
+                </div>
+              )}
+
+              {activeBattery ? (
+                <>
+                  <div className="controlRow">
+                    <span className="controlLabelSmall">Open-circuit V</span>
+                    <input
+                      disabled={controlsLocked}
+                      className="slider"
+                      type="range"
+                      min={6}
+                      max={24}
+                      step={0.2}
+                      value={battery.ocv}
+                      onChange={(e) =>
+                        setBattery((b) => ({
+                          ...b,
+                          ocv: parseFloat(e.target.value),
+                        }))
+                      }
+                    />
+                    <div className="readout">{battery.ocv} V</div>
+                  </div>
+                  <div className="controlRow">
+                    <span className="controlLabelSmall">Internal R</span>
+                    <input
+                      disabled={controlsLocked}
+                      className="slider"
+                      type="range"
+                      min={0}
+                      max={2}
+                      step={0.05}
+                      value={battery.internalR}
+                      onChange={(e) =>
+                        setBattery((b) => ({
+                          ...b,
+                          internalR: parseFloat(e.target.value),
+                        }))
+                      }
+                    />
+                    <div className="readout">{battery.internalR} Ω</div>
+                  </div>
+                  <div className="controlRow">
+                    <span className="controlLabelSmall">Charge</span>
+                    <input
+                      disabled={controlsLocked}
+                      className="slider"
+                      type="range"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={Math.round(battery.soc * 100)}
+                      onChange={(e) =>
+                        setBattery((b) => ({
+                          ...b,
+                          soc: parseInt(e.target.value, 10) / 100,
+                        }))
+                      }
+                    />
+                    <div className="readout">
+                      {Math.round(battery.soc * 100)}%
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <div className="controlRow">
+                  <span className="controlLabelSmall">Voltage</span>
+                  <input
+                    className="slider"
+                    type="range"
+                    min={0}
+                    max={24}
+                    step={3}
+                    value={sourceVoltage}
+                    disabled={controlsLocked}
+                    onChange={(e) =>
+                      setSourceVoltage(parseInt(e.target.value, 10))
+                    }
+                  />
+                  <div className="readout">{sourceVoltage} V</div>
+                </div>
+              )}
+
+              {!fixedCircuit && (
+                <>
+                  <div className="controlRow">
+                    <span className="controlLabelSmall">Protection</span>
+                    <div className="segmented small">
+                      {(["fuse", "breaker"] as ProtectionKind[]).map((k) => (
+                        <SegButton
+                          disabled={controlsLocked}
+                          key={k}
+                          active={fuse.kind === k}
+                          onClick={() => setFuse((f) => ({ ...f, kind: k }))}
+                        >
+                          {k === "fuse" ? "Fuse" : "Breaker"}
+                        </SegButton>
+                      ))}
+                    </div>
+                    <select
+                      disabled={controlsLocked}
+                      className="faultSelect"
+                      value={fuse.rating}
+                      onChange={(e) =>
+                        setFuse((f) => ({
+                          ...f,
+                          rating: parseInt(e.target.value, 10),
+                        }))
+                      }
+                    >
+                      {FUSE_RATINGS.map((r) => (
+                        <option key={r} value={r}>
+                          {r} A
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {calc.fuseBlown && (
+                    <div className="controlRow">
+                      <button
+                        className="secondaryButton"
+                        disabled={controlsLocked}
+                        onClick={replaceFuse}
+                      >
+                        {fuse.kind === "breaker"
+                          ? "Reset Breaker"
+                          : "Replace Fuse"}
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
 
               <div className="hintText">
                 {mode === "quiz"
                   ? "Quiz mode: controls locked."
+                  : presenting
+                  ? "Presentation: controls locked."
+                  : mode === "troubleshoot"
+                  ? "Troubleshoot mode: the switch still works, for ohms readings."
                   : "Click the switch in the diagram to open / close."}
               </div>
             </div>
 
+            {!fixedCircuit && (
+              <>
+                <div className="divider" />
+
+                {/* Relay */}
+                <div className="controlGroup">
+                  <div className="controlLabel">Relay</div>
+                  <div className="inlineRow">
+                    <span className="controlLabelSmall">Relay control</span>
+                    <input
+                      disabled={controlsLocked}
+                      type="checkbox"
+                      checked={relayOn}
+                      onChange={() => setRelayOn((s) => !s)}
+                    />
+                  </div>
+                  {relayOn && (
+                    <>
+                      <div className="controlRow">
+                        <span className="controlLabelSmall">Coil R</span>
+                        <input
+                          disabled={controlsLocked}
+                          className="slider"
+                          type="range"
+                          min={20}
+                          max={200}
+                          step={5}
+                          value={relay.coilR}
+                          onChange={(e) =>
+                            setRelay((r) => ({
+                              ...r,
+                              coilR: parseFloat(e.target.value),
+                            }))
+                          }
+                        />
+                        <div className="readout">{relay.coilR} Ω</div>
+                      </div>
+                      <div className="controlRow">
+                        <span className="controlLabelSmall">Pull-in</span>
+                        <input
+                          disabled={controlsLocked}
+                          className="slider"
+                          type="range"
+                          min={2}
+                          max={18}
+                          step={0.5}
+                          value={relay.pullInV}
+                          onChange={(e) =>
+                            setRelay((r) => ({
+                              ...r,
+                              pullInV: parseFloat(e.target.value),
+                            }))
+                          }
+                        />
+                        <div className="readout">{relay.pullInV} V</div>
+                      </div>
+                      <div className="controlRow">
+                        <span className="controlLabelSmall">Fault</span>
+                        <select
+                          disabled={controlsLocked}
+                          className="faultSelect"
+                          value={relay.fault}
+                          onChange={(e) =>
+                            setRelay((r) => ({
+                              ...r,
+                              fault: e.target.value as RelayFault,
+                            }))
+                          }
+                        >
+                          <option value="normal">Normal</option>
+                          <option value="openCoil">Open Coil</option>
+                          <option value="burnedContacts">
+                            Burned Contacts
+                          </option>
+                          <option value="stuckClosed">Stuck Closed</option>
+                        </select>
+                      </div>
+                      <div className="hintText">
+                        The switch now drives the relay coil; the relay contacts
+                        switch the loads.
+                      </div>
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+
+            <div className="divider" />
+
+            {/* Multimeter */}
+            <div className="controlGroup">
+              <div className="controlLabel">Multimeter</div>
+              <div className="inlineRow">
+                <span className="controlLabelSmall">Show DMM</span>
+                <input
+                  type="checkbox"
+                  checked={meterOn}
+                  disabled={mode === "troubleshoot"}
+                  onChange={() => setMeterOn((s) => !s)}
+                />
+              </div>
+              {meterOn && (
+                <div className="hintText">
+                  Click points on the diagram: first click places the red probe,
+                  second the black probe.
+                </div>
+              )}
+            </div>
+
             <div className="divider" />
 
             {/* Loads */}
@@ -733,23 +2213,41 @@ export default function App() {
                 <div key={i} className="loadControlCard">
                   <div className="loadControlHeader">
                     <div className="loadTitle">Load {i + 1}</div>
-                    <select
-                      className="faultSelect"
-                      value={loads[i].fault}
+                    {!faultsHidden && (
+                      <select
+                        className="faultSelect"
+                        value={loads[i].fault}
+                        disabled={controlsLocked}
+                        onChange={(e) =>
+                          updateLoad(i, { fault: e.target.value as FaultType })
+                        }
+                      >
+                        <option value="normal">Normal</option>
+                        <option value="high">High Resistance</option>
+                        <option value="open">Open Circuit</option>
+                        <option value="short">Short Circuit</option>
+                      </select>
+                    )}
+                  </div>
+
+                  <div className="inlineRow">
+                    <span className="controlLabelSmall">Lamp</span>
+                    <input
+                      type="checkbox"
+                      checked={loads[i].kind === "lamp"}
                       disabled={controlsLocked}
                       onChange={(e) =>
-                        updateLoad(i, { fault: e.target.value as FaultType })
+                        updateLoad(i, {
+                          kind: e.target.checked ? "lamp" : "resistor",
+                        })
                       }
-                    >
-                      <option value="normal">Normal</option>
-                      <option value="high">High Resistance</option>
-                      <option value="open">Open Circuit</option>
-                      <option value="short">Short Circuit</option>
-                    </select>
+                    />
                   </div>
 
                   <div className="loadControlRow">
-                    <span className="controlLabelSmall">Ω</span>
+                    <span className="controlLabelSmall">
+                      {loads[i].kind === "lamp" ? "Ω hot" : "Ω"}
+                    </span>
                     <input
                       className="slider"
                       type="range"
@@ -779,115 +2277,354 @@ export default function App() {
                   </div>
                 </div>
               ))}
+
+              {activeLoads.some((l) => l.kind === "lamp") && (
+                <div className="inlineRow">
+                  <span className="controlLabelSmall">Show inrush current</span>
+                  <input
+                    type="checkbox"
+                    checked={showInrush}
+                    onChange={() => setShowInrush((s) => !s)}
+                  />
+                </div>
+              )}
             </div>
+
+            {!faultsHidden && (
+              <>
+                <div className="divider" />
+
+                {/* Wiring faults */}
+                <div className="controlGroup">
+                  <div className="controlLabel">Wiring Faults</div>
+                  {segments.map((seg) => (
+                    <div key={seg.id} className="controlRow">
+                      <span className="controlLabelSmall">{seg.label}</span>
+                      <select
+                        className="faultSelect"
+                        value={wireFaults[seg.id] ?? "normal"}
+                        disabled={controlsLocked}
+                        onChange={(e) =>
+                          setWireFaults((prev) => ({
+                            ...prev,
+                            [seg.id]: e.target.value as FaultType,
+                          }))
+                        }
+                      >
+                        <option value="normal">Normal</option>
+                        <option value="high">High Resistance</option>
+                        <option value="open">Open Circuit</option>
+                        {seg.canShort && (
+                          <option value="short">Short to Ground</option>
+                        )}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {mode === "demo" && !presenting && (
+              <>
+                <div className="divider" />
+
+                <QuizSetBuilder
+                  set={draftSet}
+                  partIds={partIdsFor(circuitType, activeLoadCount)}
+                  canAdd={switchClosed && !activeBattery && !activeRelay}
+                  errors={setErrors}
+                  onRename={(title) => setDraftSet((s) => ({ ...s, title }))}
+                  onAdd={addCircuitToSet}
+                  onRemove={(idx) =>
+                    setDraftSet((s) => ({
+                      ...s,
+                      questions: s.questions.filter((_, i) => i !== idx),
+                    }))
+                  }
+                  onImport={importQuizSet}
+                  onStart={() => startQuiz(draftSet)}
+                />
+              </>
+            )}
           </div>
         </section>
 
         {/* CENTER: Circuit */}
         <section className="panel panelBorder centerPanel">
-          <div className="panelHeader">Circuit Visualization</div>
-          <div className="panelBody">
+          <div className="panelHeader">
+            {mode === "builder"
+              ? "Circuit Builder"
+              : mode === "compare"
+              ? "Healthy vs Faulted"
+              : "Circuit Visualization"}
+          </div>
+          {healthy && (
+            <div className="panelBody compareGrid">
+              <CompareCircuit
+                title="As configured"
+                options={calcOptions}
+                calc={calc}
+                onToggleSwitch={() => setSwitchClosed((s) => !s)}
+                onFuseClick={replaceFuse}
+              />
+              <CompareCircuit
+                title="Healthy (no faults)"
+                options={healthy.options}
+                calc={healthy.calc}
+                onToggleSwitch={() => setSwitchClosed((s) => !s)}
+              />
+            </div>
+          )}
+          {mode === "builder" && (
+            <div className="panelBody">
+              <CircuitBuilder
+                circuit={builder}
+                result={builderResult}
+                selected={builderSelected}
+                onSelect={setBuilderSelected}
+                onChange={setBuilder}
+                newId={uid}
+              />
+            </div>
+          )}
+          <div
+            className="panelBody"
+            hidden={mode === "builder" || mode === "compare"}
+            ref={schematicRef}
+          >
             <CircuitView
               circuitType={circuitType}
               loadCount={activeLoadCount}
               switchClosed={switchClosed}
               onToggleSwitch={() => {
-                if (mode === "quiz") return; // locked
+                if (mode === "quiz" || presenting) return; // locked
                 setSwitchClosed((s) => !s);
               }}
-              sourceV={sourceVoltage}
+              sourceV={calc.terminalV}
+              battery={
+                activeBattery && {
+                  emf: calc.sourceV,
+                  terminalV: calc.terminalV,
+                  soc: activeBattery.soc,
+                }
+              }
               hasFlow={calc.hasFlow}
               elementPowers={calc.elementPowers}
               branchCurrents={calc.branchCurrents}
-              faults={activeLoads.map((l) => l.fault)}
+              faults={activeLoads.map((l) =>
+                faultsHidden ? "normal" : l.fault
+              )}
+              lamps={activeLoads.map((l) => l.kind === "lamp")}
+              wireFaults={faultsHidden ? undefined : wireFaults}
+              fuse={
+                activeFuse && {
+                  kind: activeFuse.kind,
+                  rating: activeFuse.rating,
+                  blown: !!calc.fuseBlown,
+                }
+              }
+              onFuseClick={presenting ? undefined : replaceFuse}
+              relay={
+                activeRelay &&
+                calc.relay && { fault: activeRelay.fault, ...calc.relay }
+              }
+              meter={
+                meterOn
+                  ? {
+                      mode: meterMode,
+                      reading: meterReading,
+                      red: probes.red,
+                      black: probes.black,
+                      onProbe: placeProbe,
+                      onMode: changeMeterMode,
+                    }
+                  : undefined
+              }
             />
+            {meterOn && meterReading.warning && (
+              <div className="hintText meterWarning">
+                {meterReading.warning}
+              </div>
+            )}
+            <div className="inlineRow">
+              <span className="controlLabelSmall">Export</span>
+              <button className="secondaryButton" onClick={exportSvg}>
+                SVG
+              </button>
+              <button className="secondaryButton" onClick={exportPng}>
+                PNG
+              </button>
+              <button
+                className="secondaryButton"
+                disabled={faultsHidden}
+                title={
+                  faultsHidden ? "Readings are hidden right now." : undefined
+                }
+                onClick={exportCsv}
+              >
+                Results CSV
+              </button>
+            </div>
+            {exportNote && <div className="hintText">{exportNote}</div>}
           </div>
         </section>
 
         {/* RIGHT: Outputs */}
         <section className="panel panelBorder">
           <div className="panelHeader">Outputs</div>
-          <div className="panelBody">
+          {mode === "builder" && (
+            <div className="panelBody">
+              <BuilderReadings circuit={builder} result={builderResult} />
+            </div>
+          )}
+          <div className="panelBody" hidden={mode === "builder"}>
             <div className="rightBlock">
               <div className="blockTitle">Summary</div>
 
               <div className="kvRow">
                 <span className="kvKey">Circuit</span>
                 <span className="kvVal">
-                  {circuitType === "simple"
-                    ? "Simple circuit (1 load)"
-                    : circuitType === "series"
-                    ? `Series circuit (${activeLoadCount} loads)`
-                    : `Parallel circuit (${activeLoadCount} branches)`}
+                  {describeCircuit(circuitType, activeLoadCount)}
                 </span>
               </div>
 
-              <div className="kvRow">
-                <span className="kvKey">Source Voltage</span>
-                <span className="kvVal">{round1(calc.sourceV)} V</span>
-              </div>
+              {activeBattery ? (
+                <>
+                  <div className="kvRow">
+                    <span className="kvKey">Open-Circuit Voltage</span>
+                    <span className="kvVal">{round2(calc.sourceV)} V</span>
+                  </div>
+                  <div className="kvRow">
+                    <span className="kvKey">Terminal Voltage</span>
+                    <span className="kvVal">{round2(calc.terminalV)} V</span>
+                  </div>
+                  <div className="kvRow">
+                    <span className="kvKey">Internal Resistance</span>
+                    <span className="kvVal">{round2(calc.internalR)} Ω</span>
+                  </div>
+                </>
+              ) : (
+                <div className="kvRow">
+                  <span className="kvKey">Source Voltage</span>
+                  <span className="kvVal">{round1(calc.sourceV)} V</span>
+                </div>
+              )}
 
-              <div className="kvRow">
-                <span className="kvKey">Total Resistance</span>
-                <span className="kvVal">
-                  {isFinite(calc.totalR) ? `${round2(calc.totalR)} Ω` : "∞ Ω"}
-                </span>
-              </div>
+              {calc.relay && (
+                <>
+                  <div className="kvRow">
+                    <span className="kvKey">Relay Coil</span>
+                    <span className="kvVal">
+                      {round2(calc.relay.coilV)} V, {round2(calc.relay.coilI)} A
+                    </span>
+                  </div>
+                  <div className="kvRow">
+                    <span className="kvKey">Relay Contacts</span>
+                    <span className="kvVal">
+                      {calc.relay.contactsClosed ? "Closed" : "Open"}
+                    </span>
+                  </div>
+                </>
+              )}
 
-              <div className="kvRow">
-                <span className="kvKey">Total Current</span>
-                <span className="kvVal">{round2(calc.totalI)} A</span>
-              </div>
+              {faultsHidden ? (
+                <div className="statusText">
+                  {mode === "troubleshoot"
+                    ? "Readings are hidden while troubleshooting. Use the multimeter to find the fault."
+                    : "Readings are hidden: work out the fault from the measurements in the question."}
+                </div>
+              ) : (
+                <>
+                  <div className="kvRow">
+                    <span className="kvKey">Total Resistance</span>
+                    <span className="kvVal">
+                      {isFinite(calc.totalR)
+                        ? `${round2(calc.totalR)} Ω`
+                        : "∞ Ω"}
+                    </span>
+                  </div>
 
-              <div className="kvRow">
-                <span className="kvKey">Total Power</span>
-                <span className="kvVal">{round1(calc.totalP)} W</span>
-              </div>
+                  <div className="kvRow">
+                    <span className="kvKey">Total Current</span>
+                    <span className="kvVal">{round2(calc.totalI)} A</span>
+                  </div>
 
-              <div className="divider subtle" />
+                  {showInrush && calc.inrushI !== undefined && (
+                    <div className="kvRow">
+                      <span className="kvKey">Inrush Current (cold)</span>
+                      <span className="kvVal">{round2(calc.inrushI)} A</span>
+                    </div>
+                  )}
 
-              <div className="blockTitle">Per-Element Table</div>
-              <div className="tableWrap">
-                <table className="dataTable">
-                  <thead>
-                    <tr>
-                      <th>Element</th>
-                      <th>V (V)</th>
-                      <th>I (A)</th>
-                      <th>R (Ω)</th>
-                      <th>P (W)</th>
-                      <th>Status</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {calc.rows.map((r) => (
-                      <tr key={r.label}>
-                        <td>{r.label}</td>
-                        <td>{round2(r.v)}</td>
-                        <td>{round2(r.i)}</td>
-                        <td>{isFinite(r.r) ? round2(r.r) : "∞"}</td>
-                        <td>{round1(r.p)}</td>
-                        <td>{prettyStatus(r.status)}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+                  <div className="kvRow">
+                    <span className="kvKey">Total Power</span>
+                    <span className="kvVal">{round1(calc.totalP)} W</span>
+                  </div>
 
-              <div className="divider subtle" />
+                  <div className="divider subtle" />
+
+                  <div className="blockTitle">Per-Element Table</div>
+                  <div className="tableWrap">
+                    <table className="dataTable">
+                      <thead>
+                        <tr>
+                          <th>Element</th>
+                          <th>V (V)</th>
+                          <th>I (A)</th>
+                          <th>R (Ω)</th>
+                          <th>P (W)</th>
+                          <th>Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {calc.rows.map((r) => (
+                          <tr key={r.label}>
+                            <td>{r.label}</td>
+                            <td>{round2(r.v)}</td>
+                            <td>{round2(r.i)}</td>
+                            <td>{isFinite(r.r) ? round2(r.r) : "∞"}</td>
+                            <td>{round1(r.p)}</td>
+                            <td>{prettyStatus(r.status)}</td>
+                          </tr>
+                        ))}
+                        {calc.wireRows.map((r) => (
+                          <tr key={r.label}>
+                            <td>{r.label}</td>
+                            <td>{round2(r.v)}</td>
+                            <td>{round2(r.i)}</td>
+                            <td>{isFinite(r.r) ? round2(r.r) : "∞"}</td>
+                            <td>{round1(r.p)}</td>
+                            <td>{prettyStatus(r.status)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
 
-              <div className="blockTitle">Status</div>
-              {calc.faultNotes.length === 0 ? (
-                <div className="statusText">No faults selected.</div>
-              ) : (
-                <ul className="statusList">
-                  {calc.faultNotes.map((n, i) => (
-                    <li key={i}>{n}</li>
-                  ))}
-                </ul>
+                  <div className="divider subtle" />
+
+                  <div className="blockTitle">Status</div>
+                  {calc.faultNotes.length === 0 ? (
+                    <div className="statusText">No faults selected.</div>
+                  ) : (
+                    <ul className="statusList">
+                      {calc.faultNotes.map((n, i) => (
+                        <li key={i}>{n}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {changeNote.length > 0 && (
+                    <div className="changeNote">
+                      <span className="controlLabelSmall">What changed</span>
+                      {changeNote.map((n, i) => (
+                        <p key={i}>{n}</p>
+                      ))}
+                    </div>
+                  )}
+                </>
               )}
 
-              {!switchClosed && (
+              {!switchClosed && !calc.relay?.contactsClosed && (
                 <div className="statusText">
                   Switch is open → circuit current is ~0 A.
                 </div>
@@ -964,48 +2701,151 @@ export default function App() {
         {/* BOTTOM */}
         <section className="panel panelBorder bottomPanel">
           <div className="panelHeader">
-            {mode === "quiz"
-              ? `Quiz Question ${quizStep} / ${QUIZ_TOTAL_QUESTIONS}`
+            {mode === "quiz" && quizSetup
+              ? "Quiz Setup"
+              : mode === "quiz"
+              ? `Quiz Question ${quizStep} / ${quizTotal}`
+              : mode === "troubleshoot"
+              ? "Troubleshoot"
+              : mode === "compare"
+              ? "What the Faults Changed"
+              : mode === "builder"
+              ? "Circuit Builder"
+              : mode === "progress"
+              ? "Progress"
+              : mode === "demo" && demoView === "graphs"
+              ? "What-If Graphs"
               : "Show the Math"}
           </div>
 
           <div className="panelBody">
             {mode === "demo" && (
-              <MathPanel
-                circuitType={circuitType}
-                sourceV={calc.sourceV}
-                rows={calc.rows}
-                totalR={calc.totalR}
-                totalI={calc.totalI}
-                faultNotes={calc.faultNotes}
+              <div className="segmented small demoViewToggle">
+                <SegButton
+                  active={demoView === "math"}
+                  onClick={() => setDemoView("math")}
+                >
+                  Math
+                </SegButton>
+                <SegButton
+                  active={demoView === "graphs"}
+                  onClick={() => setDemoView("graphs")}
+                >
+                  Graphs
+                </SegButton>
+              </div>
+            )}
+
+            {mode === "demo" && demoView === "graphs" && (
+              <SweepPanel
+                options={calcOptions}
+                sweep={activeSweep}
+                onChange={setSweep}
+              />
+            )}
+
+            {mode === "demo" && demoView === "math" && (
+              <MathPanel
+                circuitType={circuitType}
+                sourceV={calc.sourceV}
+                terminalV={calc.terminalV}
+                internalR={calc.internalR}
+                rows={calc.rows}
+                totalR={calc.totalR}
+                totalI={calc.totalI}
+                faultNotes={calc.faultNotes}
               />
             )}
 
             {mode === "practice" && (
               <PracticePanel
-                showFormulas={showFormulas}
+                hints={practiceHints}
+                onHint={(partId) =>
+                  setPracticeHints((prev) => ({
+                    ...prev,
+                    [partId]: (prev[partId] ?? 0) + 1,
+                  }))
+                }
                 switchClosed={switchClosed}
+                fuseBlown={!!calc.fuseBlown}
+                hasFlow={calc.hasFlow}
                 question={practiceQuestion}
                 answers={practiceAnswers}
                 setAnswers={setPracticeAnswers}
                 checked={practiceChecked}
+                rejected={practiceRejected}
                 points={practicePoints}
                 onNew={newPracticeQuestion}
                 onCheck={checkPractice}
               />
             )}
 
-            {mode === "quiz" && (
+            {mode === "quiz" && quizSetup && (
+              <QuizSetupPanel
+                config={quizConfig}
+                onChange={(c) => setQuizConfig(normalizeQuizConfig(c))}
+                onStart={() => startQuiz(null)}
+                onPrint={printWorksheet}
+              />
+            )}
+
+            {mode === "quiz" && !quizSetup && (
               <QuizPanel
                 showFormulas={true} // quiz always shows formulas per your spec
                 question={quizQuestion}
                 answers={quizAnswers}
                 setAnswers={setQuizAnswers}
                 checked={quizChecked}
-                onSubmit={submitQuizAnswer}
+                rejected={quizRejected}
+                onSubmit={() => submitQuizAnswer()}
                 quizComplete={quizComplete}
                 quizScore={quizScore}
                 quizPossible={quizPossible}
+                seed={quizSet ? undefined : formatSeed(quizSeed)}
+                review={quizReview}
+                reviewIdx={reviewIdx}
+                onReview={reviewQuestion}
+                timeLeft={timeLeft}
+                timeLimit={quizConfig.timeLimit}
+                config={quizSet ? undefined : quizConfig}
+                onNewQuiz={openQuizSetup}
+              />
+            )}
+
+            {mode === "troubleshoot" && (
+              <TroubleshootPanel
+                suspects={suspectsFor(circuitType, activeLoadCount)}
+                log={tsLog}
+                guess={tsGuess}
+                setGuess={setTsGuess}
+                result={tsResult}
+                answer={tsScenario?.answer ?? null}
+                onSubmit={submitDiagnosis}
+                onNew={startTroubleshoot}
+              />
+            )}
+
+            {healthy && (
+              <ComparePanel
+                rows={compareResults(healthy.calc, calc)}
+                faulted={hasFaults(calcOptions)}
+              />
+            )}
+
+            {mode === "builder" && (
+              <BuilderPanel
+                circuit={builder}
+                result={builderResult}
+                selected={builderSelected}
+                onSelect={setBuilderSelected}
+                onChange={setBuilder}
+              />
+            )}
+
+            {mode === "progress" && (
+              <ProgressPanel
+                history={history}
+                onClear={() => setHistory(emptyHistory())}
               />
             )}
           </div>
@@ -1014,7 +2854,8 @@ export default function App() {
 
       <footer className="footerBar">
         <span className="footerText">
-          ElectraSim v1.0 • Standalone • No sign-in • No data saved
+          ElectraSim v1.0 • Standalone • No sign-in • Progress saved in this
+          browser
         </span>
       </footer>
     </div>
@@ -1048,6 +2889,13 @@ function SegButton({
   );
 }
 
+const RELAY_FAULT_LABELS: Record<RelayFault, string> = {
+  normal: "Normal",
+  openCoil: "Open Coil",
+  burnedContacts: "Burned Contacts",
+  stuckClosed: "Stuck Closed",
+};
+
 function prettyStatus(s: string) {
   if (s === "high") return "High Res";
   if (s === "open") return "Open Circuit";
@@ -1060,24 +2908,84 @@ function prettyStatus(s: string) {
    Bottom Panel Components
    ========================= */
 
+/** The answer box: a number with its unit, or a list of choices. */
+function PartInput(props: {
+  name: string; // unique per question, for the radio group
+  part: Part;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const { name, part, value, onChange } = props;
+
+  if (part.kind === "choice") {
+    return (
+      <div className="qaChoices">
+        {part.choices.map((c) => (
+          <label key={c.value} className="qaChoice">
+            <input
+              type="radio"
+              name={name}
+              checked={value === c.value}
+              onChange={() => onChange(c.value)}
+            />
+            {c.label}
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="qaInputRow">
+      <input
+        className="qaInput"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={`Enter ${part.unit}`}
+      />
+      <div className="qaUnit">{part.unit}</div>
+    </div>
+  );
+}
+
+function correctAnswerText(p: Part) {
+  if (p.kind === "number") return `Correct ≈ ${fmt(p.correct)} ${p.unit}`;
+  const right = p.choices.filter((c) => c.value === p.answer)[0];
+  return `Correct: ${right?.label}. ${p.explanation}`;
+}
+
+type PracticePoints = {
+  got: number; // hint penalties already taken off
+  possible: number;
+  hints: number; // hint tiers revealed across all parts
+};
+
 function PracticePanel(props: {
-  showFormulas: boolean;
+  hints: Record<string, number>;
+  onHint: (partId: string) => void;
   switchClosed: boolean;
+  fuseBlown: boolean;
+  hasFlow: boolean;
   question: Question | null;
   answers: Record<string, string>;
   setAnswers: React.Dispatch<React.SetStateAction<Record<string, string>>>;
   checked: boolean;
-  points: { got: number; possible: number } | null;
+  rejected: boolean; // Check was refused: an answer couldn't be read
+  points: PracticePoints | null;
   onNew: () => void;
   onCheck: () => void;
 }) {
   const {
-    showFormulas,
+    hints,
+    onHint,
     switchClosed,
+    fuseBlown,
+    hasFlow,
     question,
     answers,
     setAnswers,
     checked,
+    rejected,
     points,
     onNew,
     onCheck,
@@ -1094,6 +3002,30 @@ function PracticePanel(props: {
     );
   }
 
+  if (fuseBlown) {
+    return (
+      <div className="hintText">
+        <strong>The circuit protection is open.</strong>
+        <div style={{ marginTop: 8, opacity: 0.8 }}>
+          Fix the fault, then replace the fuse (or reset the breaker) to
+          continue practicing.
+        </div>
+      </div>
+    );
+  }
+
+  if (!hasFlow) {
+    return (
+      <div className="hintText">
+        <strong>No current flows in this circuit.</strong>
+        <div style={{ marginTop: 8, opacity: 0.8 }}>
+          An open fault (or an open relay coil) stops every load. Clear it to
+          generate a practice question.
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="practiceWrap">
       <div className="practiceHeaderRow">
@@ -1126,8 +3058,9 @@ function PracticePanel(props: {
         <div className="qaGrid">
           {question.parts.map((p) => {
             const raw = answers[p.id] ?? "";
-            const n = parseStudentNumber(raw);
-            const ok = checked && n !== null && withinTol(n, p.correct, p.tol);
+            const grade = gradeAnswer(raw, p);
+            const ok = checked && grade.ok;
+            const shown = hints[p.id] ?? 0;
 
             return (
               <div key={p.id} className="qaCard">
@@ -1135,36 +3068,54 @@ function PracticePanel(props: {
                   <div className="qaLabel">{p.label}</div>
                   {checked && (
                     <div className={`qaBadge ${ok ? "ok" : "bad"}`}>
-                      {ok ? "Correct" : "Check"}
+                      {ok
+                        ? "Correct"
+                        : grade.message
+                        ? "Not accepted"
+                        : "Check"}
                     </div>
                   )}
                 </div>
 
-                {showFormulas && (
-                  <>
-                    <div className="qaFormula">{p.formula}</div>
-                    <div className="qaSub">{p.substitution}</div>
-                  </>
+                {p.hints.slice(0, shown).map((h, i) => (
+                  <div
+                    key={i}
+                    className={
+                      i === 0 ? "qaLaw" : i === 1 ? "qaFormula" : "qaSub"
+                    }
+                  >
+                    {h}
+                  </div>
+                ))}
+                {!checked && shown < p.hints.length && (
+                  <button className="linkButton" onClick={() => onHint(p.id)}>
+                    {shown === 0 ? "Hint" : "Next hint"} (−{HINT_PENALTY} pt)
+                  </button>
                 )}
 
-                <div className="qaInputRow">
-                  <input
-                    className="qaInput"
-                    value={raw}
-                    onChange={(e) =>
-                      setAnswers((prev) => ({
-                        ...prev,
-                        [p.id]: e.target.value,
-                      }))
-                    }
-                    placeholder={`Enter ${p.unit}`}
-                  />
-                  <div className="qaUnit">{p.unit}</div>
-                </div>
+                <PartInput
+                  name={`${question.id}-${p.id}`}
+                  part={p}
+                  value={raw}
+                  onChange={(v) =>
+                    setAnswers((prev) => ({ ...prev, [p.id]: v }))
+                  }
+                />
+
+                {rejected && !checked && grade.message && (
+                  <div className="qaHint">{grade.message}</div>
+                )}
 
                 {checked && !ok && (
                   <div className="qaHint">
-                    Correct ≈ {fmt(p.correct)} {p.unit}
+                    {grade.message && <div>{grade.message}</div>}
+                    {grade.misconception && (
+                      <div className="qaMistake">
+                        <strong>{grade.misconception.label}?</strong>{" "}
+                        {grade.misconception.explanation}
+                      </div>
+                    )}
+                    {correctAnswerText(p)}
                   </div>
                 )}
               </div>
@@ -1181,6 +3132,12 @@ function PracticePanel(props: {
           <div>
             Percentage: {Math.round((points.got / points.possible) * 100)}%
           </div>
+          {points.hints > 0 && (
+            <div className="hintText">
+              Hints used: {points.hints} (−{HINT_PENALTY} each on correct
+              answers)
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -1193,10 +3150,19 @@ function QuizPanel(props: {
   answers: Record<string, string>;
   setAnswers: React.Dispatch<React.SetStateAction<Record<string, string>>>;
   checked: boolean;
+  rejected: boolean; // Submit was refused: an answer couldn't be read
   onSubmit: () => void;
   quizComplete: boolean;
   quizScore: number;
   quizPossible: number;
+  seed?: string; // random quizzes only
+  review: ReviewItem[];
+  reviewIdx: number | null;
+  onReview: (idx: number) => void;
+  timeLeft: number | null; // seconds, when there is a time limit
+  timeLimit: TimeLimit;
+  config?: QuizConfig; // random quizzes only
+  onNewQuiz: () => void;
 }) {
   const {
     showFormulas,
@@ -1204,10 +3170,19 @@ function QuizPanel(props: {
     answers,
     setAnswers,
     checked,
+    rejected,
     onSubmit,
     quizComplete,
     quizScore,
     quizPossible,
+    seed,
+    review,
+    reviewIdx,
+    onReview,
+    timeLeft,
+    timeLimit,
+    config,
+    onNewQuiz,
   } = props;
 
   if (quizComplete) {
@@ -1220,7 +3195,56 @@ function QuizPanel(props: {
           Score: {quizScore} / {quizPossible}
         </div>
         <div>Percentage: {pct}%</div>
-        <div className="hintText">Screenshot this result.</div>
+        {seed && (
+          <div>
+            Quiz seed: <strong>{seed}</strong>
+          </div>
+        )}
+        {config && <div className="hintText">{describeQuizConfig(config)}</div>}
+        <div className="hintText">
+          Saved to Progress. Screenshot this result to hand it in.
+        </div>
+        <div className="practiceButtons">
+          <button className="secondaryButton" onClick={onNewQuiz}>
+            New Quiz
+          </button>
+        </div>
+
+        <div className="blockTitle">Review</div>
+        <div className="hintText">
+          Pick a question to load its circuit and worked solution.
+        </div>
+        <div className="reviewList">
+          {review.map((item, idx) => {
+            const marks = item.question.parts.map(
+              (p) => gradeAnswer(item.answers[p.id] ?? "", p).ok
+            );
+            const got = marks.filter(Boolean).length;
+            return (
+              <button
+                key={item.question.id}
+                className={`reviewItem${idx === reviewIdx ? " active" : ""}`}
+                onClick={() => onReview(idx)}
+              >
+                <span>
+                  {idx + 1}. {item.question.title}
+                </span>
+                <span className="reviewMarks">
+                  {marks.map((ok, i) => (
+                    <span key={i} className={ok ? "ok" : "bad"}>
+                      {ok ? "✓" : "✗"}
+                    </span>
+                  ))}{" "}
+                  {got} / {marks.length}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        {reviewIdx !== null && review[reviewIdx] && (
+          <QuizReview item={review[reviewIdx]} />
+        )}
       </div>
     );
   }
@@ -1238,17 +3262,29 @@ function QuizPanel(props: {
         </div>
 
         <div className="practiceButtons">
+          {timeLeft !== null && (
+            <span className={`quizClock${timeLeft <= 10 ? " low" : ""}`}>
+              {timeLimit === "quiz" ? "Quiz" : "Question"}:{" "}
+              {formatDuration(timeLeft)}
+            </span>
+          )}
           <button className="primaryButton" onClick={onSubmit}>
             Submit Answer
           </button>
         </div>
       </div>
 
+      {timeLeft === 0 && (
+        <div className="qaHint">
+          Time's up: this question counts as unanswered.
+        </div>
+      )}
+
       <div className="qaGrid">
         {question.parts.map((p) => {
           const raw = answers[p.id] ?? "";
-          const n = parseStudentNumber(raw);
-          const ok = checked && n !== null && withinTol(n, p.correct, p.tol);
+          const grade = gradeAnswer(raw, p);
+          const ok = checked && grade.ok;
 
           return (
             <div key={p.id} className="qaCard">
@@ -1256,7 +3292,7 @@ function QuizPanel(props: {
                 <div className="qaLabel">{p.label}</div>
                 {checked && (
                   <div className={`qaBadge ${ok ? "ok" : "bad"}`}>
-                    {ok ? "Correct" : "Check"}
+                    {ok ? "Correct" : grade.message ? "Not accepted" : "Check"}
                   </div>
                 )}
               </div>
@@ -1268,21 +3304,27 @@ function QuizPanel(props: {
                 </>
               )}
 
-              <div className="qaInputRow">
-                <input
-                  className="qaInput"
-                  value={raw}
-                  onChange={(e) =>
-                    setAnswers((prev) => ({ ...prev, [p.id]: e.target.value }))
-                  }
-                  placeholder={`Enter ${p.unit}`}
-                />
-                <div className="qaUnit">{p.unit}</div>
-              </div>
+              <PartInput
+                name={`${question.id}-${p.id}`}
+                part={p}
+                value={raw}
+                onChange={(v) => setAnswers((prev) => ({ ...prev, [p.id]: v }))}
+              />
+
+              {rejected && !checked && grade.message && (
+                <div className="qaHint">{grade.message}</div>
+              )}
 
               {checked && !ok && (
                 <div className="qaHint">
-                  Correct ≈ {fmt(p.correct)} {p.unit}
+                  {grade.message && <div>{grade.message}</div>}
+                  {grade.misconception && (
+                    <div className="qaMistake">
+                      <strong>{grade.misconception.label}?</strong>{" "}
+                      {grade.misconception.explanation}
+                    </div>
+                  )}
+                  {correctAnswerText(p)}
                 </div>
               )}
             </div>
@@ -1291,19 +3333,1194 @@ function QuizPanel(props: {
       </div>
 
       <div className="hintText" style={{ marginTop: 10, opacity: 0.75 }}>
-        Partial credit is awarded per box. Units are ignored.
+        Partial credit is awarded per box. Units are optional, and prefixes like
+        m and k are understood (500 mA = 0.5 A).
+      </div>
+    </div>
+  );
+}
+
+const QUIZ_FAULT_OPTIONS: FaultType[] = ["high", "open", "short"];
+const QUIZ_TIME_OPTIONS = [5, 10, 15, 20, 30, 45, 60].map((m) => m * 60);
+const QUESTION_TIME_OPTIONS = [15, 30, 45, 60, 90, 120, 180];
+
+function QuizSetupPanel(props: {
+  config: QuizConfig;
+  onChange: (config: QuizConfig) => void;
+  onStart: () => void;
+  onPrint: () => void;
+}) {
+  const { config, onChange, onStart, onPrint } = props;
+  const set = (patch: Partial<QuizConfig>) => onChange({ ...config, ...patch });
+  const toggle = <T,>(list: T[], item: T) =>
+    list.indexOf(item) >= 0 ? list.filter((x) => x !== item) : [...list, item];
+
+  // whole-quiz limits are in minutes, per-question ones in seconds
+  const perMinute = config.timeLimit === "quiz";
+  const voltages = Array.from({ length: 24 / VOLTAGE_STEP }).map(
+    (_, i) => (i + 1) * VOLTAGE_STEP
+  );
+  const beginners = Math.round((config.questions * config.beginnerPct) / 100);
+
+  return (
+    <div className="practiceWrap">
+      <div className="practiceHeaderRow">
+        <div>
+          <div style={{ fontWeight: 700 }}>Set up a random quiz</div>
+          <div className="hintText">
+            Your choices are remembered and saved with the result.
+          </div>
+        </div>
+        <div className="practiceButtons">
+          <button className="secondaryButton" onClick={onPrint}>
+            Print Worksheet
+          </button>
+          <button className="primaryButton" onClick={onStart}>
+            Start Quiz
+          </button>
+        </div>
+      </div>
+
+      <div className="qaGrid">
+        <div className="qaCard">
+          <div className="qaLabel">Length</div>
+          <div className="inlineRow">
+            <input
+              className="qaInput seedInput"
+              type="number"
+              min={1}
+              max={30}
+              value={config.questions}
+              onChange={(e) => set({ questions: Number(e.target.value) })}
+            />
+            <span className="hintText">questions</span>
+          </div>
+
+          <div className="qaLabel">Time limit</div>
+          <div className="segmented small">
+            {(["none", "quiz", "question"] as TimeLimit[]).map((t) => (
+              <SegButton
+                key={t}
+                active={config.timeLimit === t}
+                onClick={() =>
+                  set({ timeLimit: t, timeLimitSec: t === "quiz" ? 600 : 60 })
+                }
+              >
+                {t === "none"
+                  ? "None"
+                  : t === "quiz"
+                  ? "Whole quiz"
+                  : "Each question"}
+              </SegButton>
+            ))}
+          </div>
+          {config.timeLimit !== "none" && (
+            <select
+              className="faultSelect"
+              value={config.timeLimitSec}
+              onChange={(e) => set({ timeLimitSec: Number(e.target.value) })}
+            >
+              {(perMinute ? QUIZ_TIME_OPTIONS : QUESTION_TIME_OPTIONS).map(
+                (sec) => (
+                  <option key={sec} value={sec}>
+                    {perMinute ? `${sec / 60} minutes` : `${sec} seconds`}
+                  </option>
+                )
+              )}
+            </select>
+          )}
+        </div>
+
+        <div className="qaCard">
+          <div className="qaLabel">Circuit types</div>
+          <div className="qaChoices">
+            {CIRCUIT_TYPES.map((t) => {
+              const on = config.circuitTypes.indexOf(t) >= 0;
+              return (
+                <label key={t} className="qaChoice">
+                  <input
+                    type="checkbox"
+                    checked={on}
+                    // at least one type has to stay on
+                    disabled={on && config.circuitTypes.length === 1}
+                    onChange={() =>
+                      set({ circuitTypes: toggle(config.circuitTypes, t) })
+                    }
+                  />
+                  {CIRCUIT_LABELS[t]}
+                </label>
+              );
+            })}
+          </div>
+
+          <div className="qaLabel">Faults that may appear</div>
+          <div className="qaChoices">
+            {QUIZ_FAULT_OPTIONS.map((f) => (
+              <label key={f} className="qaChoice">
+                <input
+                  type="checkbox"
+                  checked={config.faultTypes.indexOf(f) >= 0}
+                  onChange={() =>
+                    set({ faultTypes: toggle(config.faultTypes, f) })
+                  }
+                />
+                {FAULT_LABELS[f]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="qaCard">
+          <div className="qaLabel">Source voltage</div>
+          <div className="inlineRow">
+            <select
+              className="faultSelect"
+              value={config.voltageMin}
+              onChange={(e) => set({ voltageMin: Number(e.target.value) })}
+            >
+              {voltages.map((v) => (
+                <option key={v} value={v}>
+                  {v} V
+                </option>
+              ))}
+            </select>
+            <span className="hintText">to</span>
+            <select
+              className="faultSelect"
+              value={config.voltageMax}
+              onChange={(e) => set({ voltageMax: Number(e.target.value) })}
+            >
+              {voltages.map((v) => (
+                <option key={v} value={v}>
+                  {v} V
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="qaLabel">Difficulty mix</div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={10}
+            value={config.beginnerPct}
+            onChange={(e) => set({ beginnerPct: Number(e.target.value) })}
+          />
+          <div className="hintText">
+            {beginners} beginner, then {config.questions - beginners}{" "}
+            experienced
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* =========================
+   Healthy vs faulted
+   ========================= */
+
+/** One side of the comparison: animated, without a meter. */
+function CompareCircuit(props: {
+  title: string;
+  options: CalcOptions;
+  calc: CalcResult;
+  onToggleSwitch: () => void;
+  onFuseClick?: () => void;
+}) {
+  const { title, options: o, calc } = props;
+  return (
+    <div>
+      <div className="blockTitle">{title}</div>
+      <CircuitView
+        circuitType={o.circuitType}
+        loadCount={o.loads.length}
+        switchClosed={o.switchClosed}
+        onToggleSwitch={props.onToggleSwitch}
+        sourceV={calc.terminalV}
+        battery={
+          o.battery && {
+            emf: calc.sourceV,
+            terminalV: calc.terminalV,
+            soc: o.battery.soc,
+          }
+        }
+        hasFlow={calc.hasFlow}
+        elementPowers={calc.elementPowers}
+        branchCurrents={calc.branchCurrents}
+        faults={o.loads.map((l) => l.fault)}
+        lamps={o.loads.map((l) => l.kind === "lamp")}
+        wireFaults={o.wireFaults}
+        fuse={
+          o.fuse && {
+            kind: o.fuse.kind,
+            rating: o.fuse.rating,
+            blown: !!calc.fuseBlown,
+          }
+        }
+        onFuseClick={props.onFuseClick}
+        relay={o.relay && calc.relay && { fault: o.relay.fault, ...calc.relay }}
+      />
+    </div>
+  );
+}
+
+const QUANTITIES: Record<DeltaRow["quantity"], [string, string]> = {
+  V: ["Voltage", "V"],
+  I: ["Current", "A"],
+  P: ["Power", "W"],
+};
+
+function ComparePanel(props: { rows: DeltaRow[]; faulted: boolean }) {
+  const { rows, faulted } = props;
+  const changed = rows.filter((r) => r.changed).length;
+
+  return (
+    <div>
+      <div className="hintText">
+        {!faulted
+          ? "No faults are set, so both circuits read the same. Add a fault on the left to see what it changes."
+          : changed === 0
+          ? "The faults don't change any reading in this circuit as it is set up."
+          : `The faults change ${changed} of ${rows.length} readings. Changed readings are highlighted.`}
+      </div>
+      <div className="tableWrap">
+        <table className="dataTable">
+          <thead>
+            <tr>
+              <th>Element</th>
+              <th>Reading</th>
+              <th>Healthy</th>
+              <th>Faulted</th>
+              <th>Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => {
+              const [name, unit] = QUANTITIES[r.quantity];
+              const pct =
+                Math.abs(r.healthy) > 1e-9
+                  ? ` (${r.change > 0 ? "+" : "−"}${Math.round(
+                      Math.abs((r.change / r.healthy) * 100)
+                    )}%)`
+                  : "";
+              return (
+                <tr
+                  key={`${r.element}-${r.quantity}`}
+                  className={r.changed ? "deltaRow" : undefined}
+                >
+                  <td>{r.element}</td>
+                  <td>{name}</td>
+                  <td>
+                    {fmt(r.healthy)} {unit}
+                  </td>
+                  <td>
+                    {fmt(r.faulted)} {unit}
+                  </td>
+                  <td
+                    className={
+                      !r.changed ? "" : r.change > 0 ? "deltaUp" : "deltaDown"
+                    }
+                  >
+                    {r.changed
+                      ? `${r.change > 0 ? "+" : "−"}${fmt(
+                          Math.abs(r.change)
+                        )} ${unit}${pct}`
+                      : "–"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
       </div>
     </div>
   );
 }
 
+/* =========================
+   Circuit builder panels
+   ========================= */
+
+const BUILDER_VALUES: Partial<
+  Record<BuilderKind, { unit: string; min: number; max: number; step: number }>
+> = {
+  battery: { unit: "V", min: 1, max: 24, step: 0.5 },
+  load: { unit: "Ω", min: 1, max: 100, step: 0.5 },
+  fuse: { unit: "A", min: 1, max: 30, step: 1 },
+};
+
+function BuilderPanel(props: {
+  circuit: BuilderCircuit;
+  result: BuilderResult;
+  selected: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (circuit: BuilderCircuit) => void;
+}) {
+  const { circuit, result, selected, onSelect, onChange } = props;
+  const part = circuit.parts.filter((p) => p.id === selected)[0];
+  const range = part && BUILDER_VALUES[part.kind];
+
+  function update(next: BuilderPart) {
+    // turning a part must keep both terminals on the grid
+    if (!onGrid(next.a) || !onGrid(next.b)) return;
+    onChange({
+      parts: circuit.parts.map((p) => (p.id === next.id ? next : p)),
+    });
+  }
+
+  function remove() {
+    onChange({ parts: circuit.parts.filter((p) => p.id !== selected) });
+    onSelect(null);
+  }
+
+  function clearAll() {
+    if (!window.confirm("Remove every part from the grid?")) return;
+    onChange(emptyBuilder());
+    onSelect(null);
+  }
+
+  return (
+    <div className="practiceWrap">
+      <div className="practiceHeaderRow">
+        <div>
+          <div style={{ fontWeight: 700 }}>
+            {part ? partLabel(circuit, part) : "Build your own circuit"}
+          </div>
+          <div className="hintText">
+            {part
+              ? "Set its value, turn it or remove it. Drag it to move it."
+              : "Select a part to edit it. Terminals on the same grid point are connected."}
+          </div>
+        </div>
+        <div className="practiceButtons">
+          <button
+            className="secondaryButton"
+            disabled={circuit.parts.length === 0}
+            onClick={clearAll}
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {part && (
+        <div className="inlineRow">
+          {range && (
+            <>
+              <input
+                className="ohmsBox"
+                type="number"
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={part.value}
+                onChange={(e) =>
+                  update({
+                    ...part,
+                    value: clamp(
+                      parseFloat(e.target.value || String(range.min)),
+                      range.min,
+                      range.max
+                    ),
+                  })
+                }
+              />
+              <span className="hintText">{range.unit}</span>
+            </>
+          )}
+          {part.kind === "switch" && (
+            <button
+              className="secondaryButton"
+              onClick={() => update({ ...part, closed: !part.closed })}
+            >
+              {part.closed ? "Open Switch" : "Close Switch"}
+            </button>
+          )}
+          <button
+            className="secondaryButton"
+            onClick={() => update(rotatePart(part))}
+          >
+            Rotate
+          </button>
+          {part.kind === "battery" && (
+            <button
+              className="secondaryButton"
+              onClick={() => update(flipPart(part))}
+            >
+              Reverse
+            </button>
+          )}
+          <button className="secondaryButton" onClick={remove}>
+            Delete
+          </button>
+        </div>
+      )}
+
+      {!result.ok ? (
+        <ul className="importErrors">
+          {result.errors.map((e, i) => (
+            <li key={i}>{e}</li>
+          ))}
+        </ul>
+      ) : (
+        <div className="hintText" style={{ marginTop: 10 }}>
+          {result.notes.length
+            ? result.notes.join(" ")
+            : "The circuit is complete and solved."}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BuilderReadings(props: {
+  circuit: BuilderCircuit;
+  result: BuilderResult;
+}) {
+  const { circuit, result } = props;
+  if (!result.ok) {
+    return (
+      <div className="statusText">Finish the circuit to see its readings.</div>
+    );
+  }
+
+  // wires only show current; their drop is too small to matter
+  const parts = circuit.parts.filter((p) => p.kind !== "wire");
+
+  return (
+    <div className="rightBlock">
+      <div className="blockTitle">Readings</div>
+      <div className="tableWrap">
+        <table className="dataTable">
+          <thead>
+            <tr>
+              <th>Part</th>
+              <th>V</th>
+              <th>I</th>
+              <th>P</th>
+            </tr>
+          </thead>
+          <tbody>
+            {parts.map((p) => {
+              const r = result.readings[p.id];
+              return (
+                <tr key={p.id}>
+                  <td>{partLabel(circuit, p)}</td>
+                  <td>{fmt(Math.abs(r.v))} V</td>
+                  <td>{fmt(Math.abs(r.i))} A</td>
+                  <td>
+                    {p.kind === "load" || p.kind === "battery"
+                      ? `${fmt(r.p)} W`
+                      : "–"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/* =========================
+   Printable worksheet
+   ========================= */
+
+type Worksheet = { seed: number; questions: Question[] };
+
+/** Paper copies of a random quiz: the same setup, generated from `seed`. */
+function makeWorksheet(config: QuizConfig, seed: number): Worksheet {
+  const questions: Question[] = [];
+  for (let step = 1; step <= config.questions; step++) {
+    questions.push(makeQuizQuestion(step, null, seed, config));
+  }
+  return { seed, questions };
+}
+
+/** The circuit as drawn on screen, without animation or a meter. */
+function StaticCircuit(props: { question: Question }) {
+  const { snapshot: snap, calc, hidesFaults } = props.question;
+  return (
+    <CircuitView
+      circuitType={snap.circuitType}
+      loadCount={snap.loadCount}
+      switchClosed={snap.switchClosed}
+      onToggleSwitch={() => {}}
+      sourceV={calc.terminalV}
+      hasFlow={false}
+      elementPowers={snap.loads.map(() => 0)}
+      faults={snap.loads.map((l) => (hidesFaults ? "normal" : l.fault))}
+      lamps={snap.loads.map((l) => l.kind === "lamp")}
+      wireFaults={hidesFaults ? undefined : snap.wireFaults}
+    />
+  );
+}
+
+/** The values a student needs, since the schematic doesn't print them. */
+function givenText(q: Question) {
+  const { snapshot: snap, calc } = q;
+  const loads = snap.loads.map((l, i) => {
+    const r = `R${i + 1} = ${fmt(l.rUser)} Ω`;
+    if (q.hidesFaults || l.fault === "normal") return r;
+    if (l.fault === "high") {
+      return `${r} (${prettyStatus(l.fault)}: measures ${fmt(
+        calc.rows[i].r
+      )} Ω)`;
+    }
+    return `${r} (${prettyStatus(l.fault)})`;
+  });
+  return `Source ${fmt(snap.sourceV)} V; ${loads.join(", ")}`;
+}
+
+function WorksheetView(props: {
+  worksheet: Worksheet;
+  answerKey: boolean;
+  onAnswerKey: (answerKey: boolean) => void;
+  onClose: () => void;
+}) {
+  const { worksheet, answerKey, onAnswerKey, onClose } = props;
+  const code = formatSeed(worksheet.seed);
+
+  return (
+    <div className="worksheet">
+      <div className="worksheetToolbar">
+        <div className="segmented small">
+          <SegButton active={!answerKey} onClick={() => onAnswerKey(false)}>
+            Worksheet
+          </SegButton>
+          <SegButton active={answerKey} onClick={() => onAnswerKey(true)}>
+            Answer Key
+          </SegButton>
+        </div>
+        <button className="primaryButton" onClick={() => window.print()}>
+          Print
+        </button>
+        <button className="secondaryButton" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <header className="worksheetHeader">
+        <h1>{answerKey ? "Answer Key" : "Circuits Worksheet"}</h1>
+        <div>Worksheet {code}</div>
+        {!answerKey && (
+          <div className="worksheetName">
+            Name <span className="blank" /> Date <span className="blank" />
+          </div>
+        )}
+      </header>
+
+      {worksheet.questions.map((q, idx) => (
+        <section key={q.id} className="worksheetProblem">
+          <h2>
+            {idx + 1}. {q.title}
+          </h2>
+          <p>{q.prompt}</p>
+          {!answerKey && (
+            <div className="worksheetCircuit">
+              <StaticCircuit question={q} />
+            </div>
+          )}
+          <p>{givenText(q)}</p>
+
+          {q.parts.map((p) =>
+            answerKey ? (
+              <div key={p.id} className="keyPart">
+                <strong>{p.label}</strong>
+                {p.formula && <div>{p.formula}</div>}
+                {p.substitution && <div>{p.substitution}</div>}
+                <div>
+                  {p.kind === "number"
+                    ? `Answer: ${fmt(p.correct)} ${p.unit}`
+                    : correctAnswerText(p)}
+                </div>
+              </div>
+            ) : p.kind === "number" ? (
+              <div key={p.id} className="answerLine">
+                {p.label} = <span className="blank" /> {p.unit}
+              </div>
+            ) : (
+              <div key={p.id} className="answerLine">
+                {p.label}:
+                {p.choices.map((c) => (
+                  <div key={c.value}>☐ {c.label}</div>
+                ))}
+              </div>
+            )
+          )}
+          {!answerKey && <div className="workSpace">Working:</div>}
+        </section>
+      ))}
+    </div>
+  );
+}
+
+/** What the student entered, as they'd recognise it. */
+function enteredText(p: Part, raw: string) {
+  if (!raw.trim()) return "–";
+  if (p.kind === "number") return raw;
+  return p.choices.filter((c) => c.value === raw)[0]?.label ?? raw;
+}
+
+/** One finished quiz question: marks, the right answers and the working. */
+function QuizReview(props: { item: ReviewItem }) {
+  const { question, answers } = props.item;
+  const { calc } = question;
+
+  return (
+    <div className="reviewDetail">
+      <div style={{ fontWeight: 700 }}>{question.title}</div>
+      <div className="hintText">{question.prompt}</div>
+
+      <div className="tableWrap">
+        <table className="dataTable">
+          <thead>
+            <tr>
+              <th>Part</th>
+              <th>Your answer</th>
+              <th>Correct</th>
+              <th>Working</th>
+            </tr>
+          </thead>
+          <tbody>
+            {question.parts.map((p) => {
+              const raw = answers[p.id] ?? "";
+              const grade = gradeAnswer(raw, p);
+              return (
+                <tr key={p.id} className={grade.ok ? undefined : "weakRow"}>
+                  <td>
+                    {grade.ok ? "✓" : "✗"} {p.label}
+                  </td>
+                  <td>{enteredText(p, raw)}</td>
+                  <td>
+                    {p.kind === "number"
+                      ? `${fmt(p.correct)} ${p.unit}`
+                      : enteredText(p, p.answer)}
+                  </td>
+                  <td>{p.substitution || p.formula}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {question.parts.map((p) => {
+        const grade = gradeAnswer(answers[p.id] ?? "", p);
+        if (grade.ok) return null;
+        return (
+          <div key={p.id} className="qaHint">
+            <strong>{p.label}:</strong>{" "}
+            {grade.misconception
+              ? `${grade.misconception.label}? ${grade.misconception.explanation}`
+              : grade.message ?? correctAnswerText(p)}
+          </div>
+        );
+      })}
+
+      <MathPanel
+        circuitType={question.snapshot.circuitType}
+        sourceV={calc.sourceV}
+        terminalV={calc.terminalV}
+        internalR={calc.internalR}
+        rows={calc.rows}
+        totalR={calc.totalR}
+        totalI={calc.totalI}
+        faultNotes={calc.faultNotes}
+      />
+    </div>
+  );
+}
+
+const METER_UNIT: Record<MeterMode, string> = {
+  volts: "V",
+  ohms: "Ω",
+  amps: "A",
+};
+
+function describeMeasurement(m: Measurement) {
+  return `${METER_UNIT[m.mode]}: red on ${nodeLabel(
+    m.red
+  )}, black on ${nodeLabel(m.black)} → ${m.display}`;
+}
+
+function TroubleshootPanel(props: {
+  suspects: Suspect[];
+  log: Measurement[];
+  guess: HiddenFault;
+  setGuess: React.Dispatch<React.SetStateAction<HiddenFault>>;
+  result: TroubleshootResult | null;
+  answer: HiddenFault | null;
+  onSubmit: () => void;
+  onNew: () => void;
+}) {
+  const { suspects, log, guess, setGuess, result, answer, onSubmit, onNew } =
+    props;
+  const suspect = suspects.filter((s) => s.id === guess.component)[0];
+  const answerLabel =
+    answer &&
+    `${
+      suspects.filter((s) => s.id === answer.component)[0]?.label
+    } (${prettyStatus(answer.fault)})`;
+
+  return (
+    <div className="practiceWrap">
+      <div className="practiceHeaderRow">
+        <div>
+          <div style={{ fontWeight: 700 }}>Find the hidden fault</div>
+          <div className="hintText">
+            One component or wire is faulty. Take measurements with the
+            multimeter, then name the faulty part and the fault type. Fewer
+            measurements score higher.
+          </div>
+        </div>
+
+        <div className="practiceButtons">
+          <button className="secondaryButton" onClick={onNew}>
+            New Fault
+          </button>
+          <button
+            className="primaryButton"
+            onClick={onSubmit}
+            disabled={!!result}
+          >
+            Submit Diagnosis
+          </button>
+        </div>
+      </div>
+
+      <div className="qaGrid">
+        <div className="qaCard">
+          <div className="qaLabel">Measurements taken: {log.length}</div>
+          {log.length === 0 ? (
+            <div className="hintText">Place both probes to take a reading.</div>
+          ) : (
+            <ol className="measureLog">
+              {log.map((m, i) => (
+                <li key={i}>{describeMeasurement(m)}</li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="qaCard">
+          <div className="qaLabel">Diagnosis</div>
+          <div className="qaInputRow">
+            <select
+              className="faultSelect"
+              value={guess.component}
+              disabled={!!result}
+              onChange={(e) => {
+                const component = e.target.value;
+                const canShort = suspects.some(
+                  (s) => s.id === component && s.canShort
+                );
+                setGuess((g) => ({
+                  component,
+                  fault: g.fault === "short" && !canShort ? "open" : g.fault,
+                }));
+              }}
+            >
+              {suspects.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            <select
+              className="faultSelect"
+              value={guess.fault}
+              disabled={!!result}
+              onChange={(e) => {
+                const fault = e.target.value as FaultType;
+                setGuess((g) => ({ ...g, fault }));
+              }}
+            >
+              <option value="high">High Resistance</option>
+              <option value="open">Open Circuit</option>
+              {(!suspect || suspect.canShort) && (
+                <option value="short">Short Circuit</option>
+              )}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {result && (
+        <div className="quizResult" style={{ marginTop: 10 }}>
+          <div>
+            Score: {result.points} / {result.possible}
+          </div>
+          <div>
+            {result.componentOk
+              ? result.faultOk
+                ? "Correct: right part, right fault."
+                : "Right part, wrong fault type."
+              : "Wrong part."}{" "}
+            The fault was {answerLabel}.
+          </div>
+          <div className="hintText">
+            You took {result.taken} measurement
+            {result.taken === 1 ? "" : "s"}; the optimal path takes{" "}
+            {result.path.length}:
+          </div>
+          <ol className="measureLog">
+            {result.path.map((step, i) => (
+              <li key={i}>
+                {describeMeasurement(step)} ({step.remaining} suspect
+                {step.remaining === 1 ? "" : "s"} left)
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const PART_UNIT: Record<string, Unit> = {
+  rtotal: "Ω",
+  itotal: "A",
+  ptotal: "W",
+  v: "V",
+  i: "A",
+};
+
+function partUnit(id: string): Unit {
+  return PART_UNIT[id] ?? PART_UNIT[id[0]];
+}
+
+function partName(id: string) {
+  return id.length > 3 ? id[0].toUpperCase() + id.slice(1) : id.toUpperCase();
+}
+
+function QuizSetBuilder(props: {
+  set: QuizSet;
+  partIds: string[];
+  canAdd: boolean;
+  errors: string[];
+  onRename: (title: string) => void;
+  onAdd: (parts: QuizSetPart[], prompt: string) => void;
+  onRemove: (idx: number) => void;
+  onImport: (text: string) => void;
+  onStart: () => void;
+}) {
+  const { set, partIds, canAdd, errors } = props;
+  // chosen part id -> tolerance as typed ("" = default)
+  const [chosen, setChosen] = useState<Record<string, string>>({
+    rtotal: "",
+  });
+  const [prompt, setPrompt] = useState<string>("");
+  const picked = partIds.filter((id) => chosen[id] !== undefined);
+
+  function add() {
+    props.onAdd(
+      picked.map((id) => {
+        const tol = parseFloat(chosen[id]);
+        return tol > 0 ? { id, tol } : { id };
+      }),
+      prompt
+    );
+    setPrompt("");
+  }
+
+  function readFile(file: File) {
+    const reader = new FileReader();
+    reader.onload = () => props.onImport(String(reader.result));
+    reader.readAsText(file);
+  }
+
+  return (
+    <div className="controlGroup">
+      <div className="controlLabel">Quiz Set (Instructor)</div>
+      <div className="controlRow">
+        <span className="controlLabelSmall">Title</span>
+        <input
+          className="qaInput"
+          value={set.title}
+          onChange={(e) => props.onRename(e.target.value)}
+        />
+      </div>
+
+      <div className="hintText">Ask on this circuit (tolerance optional):</div>
+      {partIds.map((id) => (
+        <div key={id} className="inlineRow">
+          <input
+            type="checkbox"
+            checked={chosen[id] !== undefined}
+            onChange={() =>
+              setChosen((prev) => {
+                const next = { ...prev };
+                if (next[id] === undefined) next[id] = "";
+                else delete next[id];
+                return next;
+              })
+            }
+          />
+          <span className="controlLabelSmall">{partName(id)}</span>
+          {chosen[id] !== undefined && (
+            <input
+              className="qaInput tolInput"
+              value={chosen[id]}
+              placeholder={`± ${tolFor(partUnit(id))} ${partUnit(id)}`}
+              onChange={(e) =>
+                setChosen((prev) => ({ ...prev, [id]: e.target.value }))
+              }
+            />
+          )}
+        </div>
+      ))}
+      <div className="controlRow">
+        <input
+          className="qaInput"
+          value={prompt}
+          placeholder="Custom prompt (optional)"
+          onChange={(e) => setPrompt(e.target.value)}
+        />
+      </div>
+      <div className="controlRow">
+        <button
+          className="secondaryButton"
+          disabled={!canAdd || picked.length === 0}
+          onClick={add}
+        >
+          Add Current Circuit
+        </button>
+      </div>
+      {!canAdd && (
+        <div className="hintText">
+          Close the switch and use the ideal source without a relay to add this
+          circuit.
+        </div>
+      )}
+
+      {set.questions.length > 0 && (
+        <ol className="measureLog">
+          {set.questions.map((q, i) => (
+            <li key={i}>
+              {CIRCUIT_LABELS[q.snapshot.circuitType]}, {q.snapshot.loadCount}{" "}
+              load{q.snapshot.loadCount === 1 ? "" : "s"}:{" "}
+              {q.parts.map((p) => partName(p.id)).join(", ")}{" "}
+              <button className="linkButton" onClick={() => props.onRemove(i)}>
+                Remove
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="controlRow">
+        <button
+          className="primaryButton"
+          disabled={set.questions.length === 0}
+          onClick={props.onStart}
+        >
+          Start Quiz
+        </button>
+        <button
+          className="secondaryButton"
+          disabled={set.questions.length === 0}
+          onClick={() =>
+            downloadText(
+              `${set.title.trim().replace(/\W+/g, "-") || "quiz"}.json`,
+              serializeQuizSet(set),
+              "application/json"
+            )
+          }
+        >
+          Export
+        </button>
+        <label className="secondaryButton">
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) readFile(file);
+              e.target.value = ""; // allow re-importing the same file
+            }}
+          />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="importErrors">
+          {errors.map((err, i) => (
+            <li key={i}>{err}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// below this share right (with enough tries) a topic is flagged as weak
+const WEAK_PCT = 70;
+const WEAK_MIN_TRIES = 3;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+function pctOf(got: number, possible: number) {
+  return possible > 0 ? Math.round((got / possible) * 100) : 0;
+}
+
+function MasteryTable(props: {
+  title: string;
+  rows: MasteryRow[];
+  recent: MasteryRow[];
+}) {
+  const { title, rows, recent } = props;
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="tableWrap">
+      <table className="dataTable">
+        <thead>
+          <tr>
+            <th>{title}</th>
+            <th>Correct</th>
+            <th>All time</th>
+            <th>Last 7 days</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => {
+            const pct = pctOf(r.got, r.possible);
+            const week = recent.filter((w) => w.key === r.key)[0];
+            const weak = r.possible >= WEAK_MIN_TRIES && pct < WEAK_PCT;
+            return (
+              <tr key={r.key} className={weak ? "weakRow" : undefined}>
+                <td>
+                  {r.label}
+                  {weak && <span className="weakTag">Needs work</span>}
+                </td>
+                <td>
+                  {r.got} / {r.possible}
+                </td>
+                <td>{pct}%</td>
+                <td>{week ? `${pctOf(week.got, week.possible)}%` : "–"}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ProgressPanel(props: { history: History; onClear: () => void }) {
+  const { history, onClear } = props;
+  const { attempts, quizzes } = history;
+  const since = Date.now() - WEEK_MS;
+  const recent = attempts.filter((a) => a.timestamp >= since);
+  const mistakes = mistakeCounts(attempts);
+
+  return (
+    <div className="practiceWrap">
+      <div className="practiceHeaderRow">
+        <div>
+          <div style={{ fontWeight: 700 }}>Mastery</div>
+          <div className="hintText">
+            Every practice check and quiz answer is saved in this browser. Share
+            of answer boxes correct, by topic.
+          </div>
+        </div>
+
+        <div className="practiceButtons">
+          <button
+            className="secondaryButton"
+            disabled={attempts.length === 0 && quizzes.length === 0}
+            onClick={() => {
+              if (window.confirm("Delete all saved quiz and practice history?"))
+                onClear();
+            }}
+          >
+            Clear History
+          </button>
+        </div>
+      </div>
+
+      {attempts.length === 0 ? (
+        <div className="hintText">
+          No attempts yet. Answer a practice question or take a quiz.
+        </div>
+      ) : (
+        <div className="progressGrid">
+          <MasteryTable
+            title="Circuit type"
+            rows={masteryByCircuit(attempts)}
+            recent={masteryByCircuit(recent)}
+          />
+          <MasteryTable
+            title="Quantity"
+            rows={masteryByQuantity(attempts)}
+            recent={masteryByQuantity(recent)}
+          />
+          <MasteryTable
+            title="Fault type"
+            rows={masteryByFault(attempts)}
+            recent={masteryByFault(recent)}
+          />
+        </div>
+      )}
+
+      {mistakes.length > 0 && (
+        <div className="qaCard" style={{ marginTop: 10 }}>
+          <div className="qaLabel">Mistakes spotted</div>
+          <ol className="measureLog">
+            {mistakes.map((m) => (
+              <li key={m.label}>
+                {m.label}: {m.count} time{m.count === 1 ? "" : "s"}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {quizzes.length > 0 && (
+        <div className="qaCard" style={{ marginTop: 10 }}>
+          <div className="qaLabel">Completed quizzes</div>
+          <ol className="measureLog">
+            {quizzes
+              .slice(-10)
+              .reverse()
+              .map((q) => (
+                <li key={q.id}>
+                  {new Date(q.finishedAt).toLocaleString()}
+                  {q.setTitle ? ` (${q.setTitle})` : ""}
+                  {q.seed ? ` (seed ${q.seed})` : ""}: {q.score} / {q.possible}{" "}
+                  ({pctOf(q.score, q.possible)}%)
+                  {q.config && (
+                    <div className="hintText">
+                      {describeQuizConfig(q.config)}
+                    </div>
+                  )}
+                </li>
+              ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* =========================
    Original MathPanel
    ========================= */
 
+function fmtR(r: number) {
+  return isFinite(r) ? String(round2(r)) : "∞";
+}
+
 function MathPanel({
   circuitType,
   sourceV,
+  terminalV,
+  internalR,
   rows,
   totalR,
   totalI,
@@ -1311,6 +4528,8 @@ function MathPanel({
 }: {
   circuitType: CircuitType;
   sourceV: number;
+  terminalV: number;
+  internalR: number; // > 0 for a battery with internal resistance
   rows: {
     label: string;
     v: number;
@@ -1333,6 +4552,18 @@ function MathPanel({
   const vDrops = rows.map((r) => `${r.label}: ${round2(r.v)}V`).join(" | ");
   const iBranches = rows.map((r) => `${r.label}: ${round2(r.i)}A`).join(" | ");
 
+  // combination: Load 1 in series, Loads 2..n form the parallel block
+  const branchRows = rows.slice(1);
+  const branchInv = branchRows
+    .map((r) => (isFinite(r.r) ? `1/${round2(r.r)}` : "0"))
+    .join(" + ");
+  const rPar = isFinite(totalR) ? totalR - (rows[0]?.r ?? 0) : Infinity;
+  const v1 = rows[0]?.v ?? 0;
+  const vPar = branchRows[0]?.v ?? 0;
+  const comboBranches = branchRows
+    .map((r) => `${r.label}: ${round2(vPar)} / ${fmtR(r.r)} = ${round2(r.i)}A`)
+    .join(" | ");
+
   return (
     <div className="mathGrid">
       <div className="mathSteps">
@@ -1358,6 +4589,17 @@ function MathPanel({
                 </div>
               </>
             )}
+            {circuitType === "combination" && (
+              <>
+                <div className="mathMini">1/Rpar = 1/R2 + 1/R3 + …</div>
+                <div className="mathMini">1/Rpar = {branchInv}</div>
+                <div className="mathMini">Rtotal = R1 + Rpar</div>
+                <div className="mathMini">
+                  Rtotal = {fmtR(rows[0]?.r ?? Infinity)} + {fmtR(rPar)} ={" "}
+                  {fmtR(totalR)}Ω
+                </div>
+              </>
+            )}
             {circuitType === "simple" && (
               <>
                 <div className="mathMini">Rtotal = R1</div>
@@ -1372,11 +4614,29 @@ function MathPanel({
         <div className="stepLine">
           <span className="stepLabel">Step 2:</span>
           <span className="stepText">
-            Find Total Current (I = V / Rtotal)
-            <div className="mathMini">
-              I = {round2(sourceV)} / {isFinite(totalR) ? round2(totalR) : "∞"}{" "}
-              = {round2(totalI)} A
-            </div>
+            {internalR > 0 ? (
+              <>
+                Find Total Current (I = EMF / (Rtotal + r))
+                <div className="mathMini">
+                  {`I = ${round2(sourceV)} / (${fmtR(totalR)} + ${round2(
+                    internalR
+                  )}) = ${round2(totalI)} A`}
+                </div>
+                <div className="mathMini">
+                  {`Vterminal = EMF − I × r = ${round2(sourceV)} − ${round2(
+                    totalI
+                  )} × ${round2(internalR)} = ${round2(terminalV)} V`}
+                </div>
+              </>
+            ) : (
+              <>
+                Find Total Current (I = V / Rtotal)
+                <div className="mathMini">
+                  I = {round2(sourceV)} /{" "}
+                  {isFinite(totalR) ? round2(totalR) : "∞"} = {round2(totalI)} A
+                </div>
+              </>
+            )}
           </span>
         </div>
 
@@ -1387,10 +4647,25 @@ function MathPanel({
               ? "Voltage drops: Vn = I × Rn"
               : circuitType === "parallel"
               ? "Branch currents: In = V / Rn"
+              : circuitType === "combination"
+              ? "Series drop, then branch currents"
               : "Load values"}
-            <div className="mathMini">
-              {circuitType === "series" ? vDrops : iBranches}
-            </div>
+            {circuitType === "combination" ? (
+              <>
+                <div className="mathMini">
+                  V1 = {round2(totalI)} × {fmtR(rows[0]?.r ?? Infinity)} ={" "}
+                  {round2(v1)} V
+                </div>
+                <div className="mathMini">
+                  Vpar = {round2(terminalV)} − {round2(v1)} = {round2(vPar)} V
+                </div>
+                <div className="mathMini">In = Vpar / Rn → {comboBranches}</div>
+              </>
+            ) : (
+              <div className="mathMini">
+                {circuitType === "series" ? vDrops : iBranches}
+              </div>
+            )}
           </span>
         </div>
 
@@ -1403,6 +4678,8 @@ function MathPanel({
                 ? "Sum of voltage drops ≈ Source voltage"
                 : circuitType === "parallel"
                 ? "Sum of branch currents ≈ Total current"
+                : circuitType === "combination"
+                ? "V1 + Vpar ≈ Source voltage; sum of branch currents ≈ Total current"
                 : "N/A"}
             </div>
             {faultNotes.length > 0 && (
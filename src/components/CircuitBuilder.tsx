@@ -0,0 +1,464 @@
+import React, { useRef, useState } from "react";
+import {
+  BUILDER_LABELS,
+  GRID_COLS,
+  GRID_ROWS,
+  newPart,
+  onGrid,
+  partLabel,
+  pointKey,
+} from "../logic/builder";
+import type {
+  BuilderCircuit,
+  BuilderKind,
+  BuilderPart,
+  BuilderResult,
+  GridPoint,
+} from "../logic/builder";
+import { clamp } from "../logic/electrical";
+
+interface CircuitBuilderProps {
+  circuit: BuilderCircuit;
+  result: BuilderResult;
+  selected: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (circuit: BuilderCircuit) => void;
+  newId: () => string;
+}
+
+// Same drawing area as CircuitView, with a point every GRID pixels
+const GRID = 40;
+const WIDTH = (GRID_COLS + 1) * GRID;
+const HEIGHT = (GRID_ROWS + 1) * GRID;
+
+const PALETTE: BuilderKind[] = ["battery", "switch", "fuse", "load"];
+
+type Drag =
+  | { mode: "move"; id: string; from: GridPoint; orig: BuilderPart }
+  | { mode: "end"; id: string; end: "a" | "b" }
+  | { mode: "wire"; from: GridPoint; to: GridPoint };
+
+function px(p: GridPoint) {
+  return { x: p.x * GRID, y: p.y * GRID };
+}
+
+function samePoint(p: GridPoint, q: GridPoint) {
+  return p.x === q.x && p.y === q.y;
+}
+
+export default function CircuitBuilder(props: CircuitBuilderProps) {
+  const { circuit, result, selected, onSelect, onChange, newId } = props;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  /** The grid point nearest a mouse / touch position. */
+  function gridAt(clientX: number, clientY: number): GridPoint {
+    const svg = svgRef.current;
+    const box = svg ? svg.getBoundingClientRect() : null;
+    if (!box || box.width === 0) return { x: 1, y: 1 };
+    // the viewBox is scaled to fit, keeping its aspect ratio
+    const scale = Math.min(box.width / WIDTH, box.height / HEIGHT);
+    const left = box.left + (box.width - WIDTH * scale) / 2;
+    const top = box.top + (box.height - HEIGHT * scale) / 2;
+    return {
+      x: clamp(Math.round((clientX - left) / scale / GRID), 1, GRID_COLS),
+      y: clamp(Math.round((clientY - top) / scale / GRID), 1, GRID_ROWS),
+    };
+  }
+
+  function replacePart(part: BuilderPart) {
+    onChange({
+      parts: circuit.parts.map((p) => (p.id === part.id ? part : p)),
+    });
+  }
+
+  function drop(e: React.DragEvent) {
+    e.preventDefault();
+    const kind = e.dataTransfer.getData("text/plain") as BuilderKind;
+    if (PALETTE.indexOf(kind) < 0) return;
+    const part = newPart(kind, gridAt(e.clientX, e.clientY), newId());
+    if (!onGrid(part.b)) part.b = { x: part.a.x - 2, y: part.a.y };
+    onChange({ parts: [...circuit.parts, part] });
+    onSelect(part.id);
+  }
+
+  function pointerDown(e: React.PointerEvent, start: Drag) {
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setDrag(start);
+  }
+
+  function pointerMove(e: React.PointerEvent) {
+    if (!drag) return;
+    const at = gridAt(e.clientX, e.clientY);
+    if (drag.mode === "wire") {
+      setDrag({ ...drag, to: at });
+    } else if (drag.mode === "end") {
+      const part = circuit.parts.filter((p) => p.id === drag.id)[0];
+      const other = part && (drag.end === "a" ? part.b : part.a);
+      if (part && !samePoint(at, other)) {
+        replacePart({ ...part, [drag.end]: at });
+      }
+    } else {
+      const dx = at.x - drag.from.x;
+      const dy = at.y - drag.from.y;
+      const a = { x: drag.orig.a.x + dx, y: drag.orig.a.y + dy };
+      const b = { x: drag.orig.b.x + dx, y: drag.orig.b.y + dy };
+      if (onGrid(a) && onGrid(b)) replacePart({ ...drag.orig, a, b });
+    }
+  }
+
+  function pointerUp() {
+    if (drag?.mode === "wire" && !samePoint(drag.from, drag.to)) {
+      const wire: BuilderPart = {
+        ...newPart("wire", drag.from, newId()),
+        b: drag.to,
+      };
+      onChange({ parts: [...circuit.parts, wire] });
+      onSelect(wire.id);
+    }
+    setDrag(null);
+  }
+
+  // terminals with nothing else on their grid point are drawn as dangling
+  const touching: Record<string, number> = {};
+  circuit.parts.forEach((p) =>
+    [p.a, p.b].forEach((t) => {
+      touching[pointKey(t)] = (touching[pointKey(t)] ?? 0) + 1;
+    })
+  );
+
+  const gridDots: GridPoint[] = [];
+  for (let y = 1; y <= GRID_ROWS; y++) {
+    for (let x = 1; x <= GRID_COLS; x++) gridDots.push({ x, y });
+  }
+
+  return (
+    <div className="builderWrap">
+      <div className="builderPalette">
+        {PALETTE.map((kind) => (
+          <div
+            key={kind}
+            className="builderChip"
+            draggable
+            onDragStart={(e) => e.dataTransfer.setData("text/plain", kind)}
+          >
+            {BUILDER_LABELS[kind]}
+          </div>
+        ))}
+        <span className="hintText">
+          Drag parts onto the grid. Drag between grid points to draw a wire.
+        </span>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        width="100%"
+        height="100%"
+        className="circuitSvg builderSvg"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={drop}
+        onPointerDown={(e) => {
+          const at = gridAt(e.clientX, e.clientY);
+          onSelect(null);
+          pointerDown(e, { mode: "wire", from: at, to: at });
+        }}
+        onPointerMove={pointerMove}
+        onPointerUp={pointerUp}
+      >
+        {gridDots.map((p) => (
+          <circle
+            key={pointKey(p)}
+            cx={p.x * GRID}
+            cy={p.y * GRID}
+            r={1.5}
+            className="gridDot"
+          />
+        ))}
+
+        {circuit.parts.map((part) => (
+          <PartSymbol
+            key={part.id}
+            part={part}
+            label={partLabel(circuit, part)}
+            selected={part.id === selected}
+            blown={result.ok && result.blownFuses.indexOf(part.id) >= 0}
+            powerW={result.ok ? result.readings[part.id].p : 0}
+            onPointerDown={(e) => {
+              onSelect(part.id);
+              pointerDown(e, {
+                mode: "move",
+                id: part.id,
+                from: gridAt(e.clientX, e.clientY),
+                orig: part,
+              });
+            }}
+          />
+        ))}
+
+        {circuit.parts.map((part) =>
+          (["a", "b"] as const).map((end) => {
+            const t = px(part[end]);
+            const loose = touching[pointKey(part[end])] === 1;
+            // wire ends can be dragged to reconnect them
+            const movable = part.kind === "wire" && part.id === selected;
+            return (
+              <circle
+                key={`${part.id}-${end}`}
+                cx={t.x}
+                cy={t.y}
+                r={movable ? 6 : 4}
+                className={`node ${loose ? "dangling" : ""}`}
+                style={{ cursor: movable ? "move" : undefined }}
+                onPointerDown={
+                  movable
+                    ? (e) => pointerDown(e, { mode: "end", id: part.id, end })
+                    : undefined
+                }
+              />
+            );
+          })
+        )}
+
+        {drag?.mode === "wire" && !samePoint(drag.from, drag.to) && (
+          <line
+            x1={drag.from.x * GRID}
+            y1={drag.from.y * GRID}
+            x2={drag.to.x * GRID}
+            y2={drag.to.y * GRID}
+            className="wire draft"
+          />
+        )}
+
+        {result.ok && <BuilderDots circuit={circuit} result={result} />}
+      </svg>
+    </div>
+  );
+}
+
+/* =======================
+   Part symbols
+   ======================= */
+
+function PartSymbol({
+  part,
+  label,
+  selected,
+  blown,
+  powerW,
+  onPointerDown,
+}: {
+  part: BuilderPart;
+  label: string;
+  selected: boolean;
+  blown: boolean;
+  powerW: number;
+  onPointerDown: (e: React.PointerEvent) => void;
+}) {
+  const a = px(part.a);
+  const b = px(part.b);
+  const len = Math.hypot(b.x - a.x, b.y - a.y);
+  const deg = (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+  const mid = len / 2;
+
+  // labels stay upright, off to the side of the part
+  const nx = -(b.y - a.y) / len;
+  const ny = (b.x - a.x) / len;
+  const side = ny > 0 || (ny === 0 && nx < 0) ? -1 : 1;
+  const lx = (a.x + b.x) / 2 + nx * 24 * side;
+  const ly = (a.y + b.y) / 2 + ny * 24 * side + 4;
+
+  const value =
+    part.kind === "battery"
+      ? `${part.value} V`
+      : part.kind === "load"
+      ? `${part.value} Ω`
+      : part.kind === "fuse"
+      ? `${part.value} A`
+      : "";
+  const glow = clamp(powerW / 20, 0, 1);
+
+  return (
+    <g
+      className={`builderPart ${selected ? "selected" : ""}`}
+      onPointerDown={onPointerDown}
+    >
+      <g transform={`translate(${a.x},${a.y}) rotate(${deg})`}>
+        {/* a wide invisible stroke makes thin parts easy to grab */}
+        <line x1={0} y1={0} x2={len} y2={0} className="builderHit" />
+
+        {part.kind === "wire" && (
+          <line x1={0} y1={0} x2={len} y2={0} className="wire" />
+        )}
+
+        {part.kind === "battery" && (
+          <>
+            <line x1={0} y1={0} x2={mid - 6} y2={0} className="wire" />
+            <line x1={mid + 6} y1={0} x2={len} y2={0} className="wire" />
+            {/* short plate −, long plate + (the b end) */}
+            <line
+              x1={mid - 6}
+              y1={-9}
+              x2={mid - 6}
+              y2={9}
+              className="wire thick"
+            />
+            <line x1={mid + 6} y1={-18} x2={mid + 6} y2={18} className="wire" />
+          </>
+        )}
+
+        {part.kind === "switch" && (
+          <>
+            <line x1={0} y1={0} x2={mid - 18} y2={0} className="wire" />
+            <line x1={mid + 18} y1={0} x2={len} y2={0} className="wire" />
+            {part.closed ? (
+              <line
+                x1={mid - 18}
+                y1={0}
+                x2={mid + 18}
+                y2={0}
+                className="wire"
+              />
+            ) : (
+              <line
+                x1={mid - 18}
+                y1={0}
+                x2={mid + 8}
+                y2={-14}
+                className="wire"
+              />
+            )}
+          </>
+        )}
+
+        {part.kind === "fuse" && (
+          <>
+            <line x1={0} y1={0} x2={mid - 12} y2={0} className="wire" />
+            <line x1={mid + 12} y1={0} x2={len} y2={0} className="wire" />
+            <rect
+              x={mid - 12}
+              y={-6}
+              width={24}
+              height={12}
+              rx={3}
+              className={`fuseBody ${blown ? "blown" : ""}`}
+            />
+            {blown ? (
+              <>
+                <line
+                  x1={mid - 12}
+                  y1={0}
+                  x2={mid - 3}
+                  y2={-3}
+                  className="fuseLink blown"
+                />
+                <line
+                  x1={mid + 3}
+                  y1={3}
+                  x2={mid + 12}
+                  y2={0}
+                  className="fuseLink blown"
+                />
+              </>
+            ) : (
+              <line
+                x1={mid - 12}
+                y1={0}
+                x2={mid + 12}
+                y2={0}
+                className="fuseLink"
+              />
+            )}
+          </>
+        )}
+
+        {part.kind === "load" && (
+          <>
+            <line x1={0} y1={0} x2={mid - 22} y2={0} className="wire" />
+            <line x1={mid + 22} y1={0} x2={len} y2={0} className="wire" />
+            <rect
+              x={mid - 22}
+              y={-11}
+              width={44}
+              height={22}
+              rx={5}
+              className="load"
+              style={{ opacity: 0.35 + glow * 0.65 }}
+            />
+            {glow > 0.02 && (
+              <rect
+                x={mid - 22}
+                y={-11}
+                width={44}
+                height={22}
+                rx={5}
+                className="loadGlow"
+                style={{ opacity: glow }}
+              />
+            )}
+          </>
+        )}
+      </g>
+
+      {part.kind !== "wire" && (
+        <text x={lx} y={ly} textAnchor="middle" className="label">
+          {label}
+          {value && ` · ${value}`}
+          {blown && " · BLOWN"}
+        </text>
+      )}
+      {part.kind === "battery" && (
+        <text x={b.x} y={b.y - 8} textAnchor="middle" className="label">
+          +
+        </text>
+      )}
+    </g>
+  );
+}
+
+/* =======================
+   Electron dots
+   ======================= */
+
+function BuilderDots({
+  circuit,
+  result,
+}: {
+  circuit: BuilderCircuit;
+  result: Extract<BuilderResult, { ok: true }>;
+}) {
+  if (!result.hasFlow) return null;
+
+  return (
+    <g className="dots">
+      {circuit.parts.map((part) => {
+        const i = result.readings[part.id].i;
+        if (i === 0) return null;
+        // dots run the way the current does through each part
+        const from = px(i > 0 ? part.a : part.b);
+        const to = px(i > 0 ? part.b : part.a);
+        const len = Math.hypot(to.x - from.x, to.y - from.y);
+        const speed = clamp(30 + Math.abs(i) * 25, 30, 160); // px per second
+        const dur = len / speed;
+        const count = Math.max(1, Math.round(len / 20));
+        const d = `M ${from.x},${from.y} L ${to.x},${to.y}`;
+
+        return (
+          <g key={part.id}>
+            {Array.from({ length: count }).map((_, k) => (
+              <circle key={k} r={3} className="dot">
+                <animateMotion
+                  dur={`${dur.toFixed(2)}s`}
+                  repeatCount="indefinite"
+                  begin={`${(-(k / count) * dur).toFixed(2)}s`}
+                  path={d}
+                />
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
@@ -1,6 +1,12 @@
 import React, { useMemo } from "react";
-import type { CircuitType, FaultType } from "../logic/electrical";
+import type {
+  CircuitType,
+  FaultType,
+  ProtectionKind,
+  RelayFault,
+} from "../logic/electrical";
 import { clamp } from "../logic/electrical";
+import type { MeterMode, MeterReading } from "../logic/meter";
 
 interface CircuitViewProps {
   circuitType: CircuitType;
@@ -9,16 +15,48 @@ interface CircuitViewProps {
   onToggleSwitch: () => void;
 
   sourceV: number;
+  // Battery model readout (omit for an ideal source)
+  battery?: { emf: number; terminalV: number; soc: number };
   hasFlow: boolean;
   elementPowers: number[];
   branchCurrents?: number[];
   faults: FaultType[];
+  lamps?: boolean[]; // incandescent lamp loads (default: all resistors)
+  wireFaults?: Record<string, FaultType>; // keyed by netlist wire id
+
+  // Source-side fuse / breaker (omit for an unprotected circuit)
+  fuse?: { kind: ProtectionKind; rating: number; blown: boolean };
+  onFuseClick?: () => void;
+
+  // Relay: the switch moves to a control circuit driving the relay coil
+  relay?: {
+    fault: RelayFault;
+    coilV: number;
+    pulledIn: boolean;
+    contactsClosed: boolean;
+  };
+
+  // Digital multimeter overlay (omit to hide the meter)
+  meter?: {
+    mode: MeterMode;
+    reading: MeterReading;
+    red: ProbePoint | null;
+    black: ProbePoint | null;
+    onProbe: (p: ProbePoint) => void;
+    onMode: (m: MeterMode) => void;
+  };
 }
 
 type Pt = { x: number; y: number };
 
+// A clickable wire point / terminal, tied to a node of the circuit netlist
+export type ProbePoint = { id: string; node: string; x: number; y: number };
+
 const TOP_Y = 150;
 const RETURN_Y = 240;
+// relay control circuit, above the load circuit
+const CTRL_Y = 60;
+const COIL_Y = 100;
 
 export default function CircuitView(props: CircuitViewProps) {
   const {
@@ -27,10 +65,17 @@ export default function CircuitView(props: CircuitViewProps) {
     switchClosed,
     onToggleSwitch,
     sourceV,
+    battery,
     hasFlow,
     elementPowers,
     branchCurrents,
     faults,
+    lamps = [],
+    wireFaults,
+    fuse,
+    onFuseClick,
+    relay,
+    meter,
   } = props;
 
   // Visual speed only
@@ -61,11 +106,16 @@ export default function CircuitView(props: CircuitViewProps) {
     []
   );
 
+  // Combination: Load 1 sits on the top rail, the rest are parallel branches
+  const branchCount = circuitType === "combination" ? loadCount - 1 : loadCount;
+  const isBranched =
+    circuitType === "parallel" || circuitType === "combination";
+
   // Parallel branch paths should be FULL loops: battery -> switch -> top rail -> branch -> return -> battery
   const parallelLoopPaths: Pt[][] = useMemo(() => {
     const paths: Pt[][] = [];
 
-    for (let i = 0; i < loadCount; i++) {
+    for (let i = 0; i < branchCount; i++) {
       const x = PAR.rightMostX - i * PAR.spacingX;
 
       paths.push([
@@ -89,7 +139,12 @@ export default function CircuitView(props: CircuitViewProps) {
     }
 
     return paths;
-  }, [loadCount, PAR]);
+  }, [branchCount, PAR]);
+
+  const probePoints = useMemo(
+    () => probePointsFor(circuitType, loadCount, !!relay),
+    [circuitType, loadCount, relay]
+  );
 
   // Dot count for non-parallel modes
   const dotCount = useMemo(() => {
@@ -108,17 +163,29 @@ export default function CircuitView(props: CircuitViewProps) {
       height="100%"
       className="circuitSvg"
     >
-      {/* Battery + short feed */}
-      <Battery x={70} y={TOP_Y} />
-      <line x1={100} y1={TOP_Y} x2={140} y2={TOP_Y} className="wire" />
+      {/* Battery + short feed (through the fuse, if fitted) */}
+      <Battery x={70} y={TOP_Y} model={battery} />
+      {fuse ? (
+        <Fuse x={118} y={TOP_Y} {...fuse} onClick={onFuseClick} />
+      ) : (
+        <line x1={100} y1={TOP_Y} x2={140} y2={TOP_Y} className="wire" />
+      )}
 
-      {/* Switch */}
-      <Switch
-        x={180}
-        y={TOP_Y}
-        closed={switchClosed}
-        onClick={onToggleSwitch}
-      />
+      {/* Switch, or relay contacts with the switch in the control circuit */}
+      {relay ? (
+        <RelayCircuit
+          relay={relay}
+          switchClosed={switchClosed}
+          onToggleSwitch={onToggleSwitch}
+        />
+      ) : (
+        <Switch
+          x={180}
+          y={TOP_Y}
+          closed={switchClosed}
+          onClick={onToggleSwitch}
+        />
+      )}
 
       {/* Circuit layouts */}
       {circuitType === "simple" && (
@@ -126,6 +193,7 @@ export default function CircuitView(props: CircuitViewProps) {
           loadCount={loadCount}
           powers={elementPowers}
           faults={faults}
+          lamps={lamps}
         />
       )}
 
@@ -134,6 +202,7 @@ export default function CircuitView(props: CircuitViewProps) {
           loadCount={loadCount}
           powers={elementPowers}
           faults={faults}
+          lamps={lamps}
         />
       )}
 
@@ -142,6 +211,16 @@ export default function CircuitView(props: CircuitViewProps) {
           loadCount={loadCount}
           powers={elementPowers}
           faults={faults}
+          lamps={lamps}
+        />
+      )}
+
+      {circuitType === "combination" && (
+        <CombinationCircuit
+          loadCount={loadCount}
+          powers={elementPowers}
+          faults={faults}
+          lamps={lamps}
         />
       )}
 
@@ -149,30 +228,189 @@ export default function CircuitView(props: CircuitViewProps) {
       <line x1="60" y1={RETURN_Y} x2="700" y2={RETURN_Y} className="wire" />
       <line x1="60" y1={RETURN_Y} x2="60" y2={TOP_Y} className="wire" />
 
+      {/* Faulted wire segments */}
+      {wireFaultSpots(circuitType, loadCount).map((spot) => {
+        const f = wireFaults?.[spot.id] ?? "normal";
+        return f === "normal" ? null : (
+          <WireFault key={spot.id} spot={spot} fault={f} />
+        );
+      })}
+
       {/* Electron dots */}
-      {hasFlow &&
-        switchClosed &&
-        circuitType !== "parallel" &&
-        dotCount > 0 && (
-          <ElectronDots path={loopPath} count={dotCount} speed={speed} />
-        )}
-
-      {hasFlow && switchClosed && circuitType === "parallel" && (
+      {hasFlow && !isBranched && dotCount > 0 && (
+        <ElectronDots path={loopPath} count={dotCount} speed={speed} />
+      )}
+
+      {hasFlow && isBranched && (
         <ParallelElectronDots
           loopPaths={parallelLoopPaths}
-          branchCurrents={branchCurrents ?? new Array(loadCount).fill(0)}
+          branchCurrents={branchCurrents ?? new Array(branchCount).fill(0)}
           speed={speed}
         />
       )}
+
+      {meter && <Multimeter meter={meter} points={probePoints} />}
     </svg>
   );
 }
 
+/* =======================
+   Probe points (must match node names in buildCircuitNetlist)
+   ======================= */
+
+function probePointsFor(
+  circuitType: CircuitType,
+  loadCount: number,
+  relay: boolean
+) {
+  const pts: ProbePoint[] = [];
+  const add = (node: string, x: number, y: number) =>
+    pts.push({ id: `${node}@${x},${y}`, node, x, y });
+
+  add("bat", 102, TOP_Y);
+  add("fuse", 138, TOP_Y);
+  add("swIn", 150, TOP_Y);
+  add("swOut", 210, TOP_Y);
+  add("gnd", 60, RETURN_Y);
+  if (relay) {
+    add("ctlIn", 200, CTRL_Y);
+    add("ctlOut", 260, CTRL_Y);
+    add("ctlOut", 200, COIL_Y);
+    add("coilOut", 160, COIL_Y);
+  }
+
+  if (circuitType === "simple" || circuitType === "series") {
+    const startX = circuitType === "simple" ? 260 : 280;
+    for (let i = 0; i < loadCount; i++) {
+      const x = startX + i * 90;
+      add(`L${i + 1}+`, x - 25, TOP_Y);
+      add(`L${i + 1}-`, x + 25, TOP_Y);
+    }
+    return pts;
+  }
+
+  // parallel / combination (same geometry as ParallelCircuit)
+  const first = circuitType === "combination" ? 1 : 0;
+  const rail = first ? "L1-" : "swOut";
+  const yCenter = (TOP_Y + RETURN_Y) / 2;
+  if (first) {
+    add("L1+", 255, TOP_Y);
+    add("L1-", 305, TOP_Y);
+  }
+  for (let i = 0; i < loadCount - first; i++) {
+    const x = 700 - 35 - i * 70;
+    add(rail, x, TOP_Y);
+    add(`L${first + i + 1}+`, x, yCenter - 25);
+    add("ret", x, yCenter + 25);
+  }
+  return pts;
+}
+
+/* =======================
+   Wire fault markers (ids match buildCircuitNetlist)
+   ======================= */
+
+type FaultSpot = Pt & {
+  id: string;
+  badge: Pt;
+  anchor: "middle" | "end";
+  drop: boolean; // room to draw a short straight down to the return
+};
+
+function wireFaultSpots(circuitType: CircuitType, loadCount: number) {
+  const spots: FaultSpot[] = [
+    {
+      id: "FEED",
+      x: 144,
+      y: TOP_Y,
+      badge: { x: 144, y: TOP_Y - 26 },
+      anchor: "middle",
+      drop: true,
+    },
+    {
+      id: "GND",
+      x: 150,
+      y: RETURN_Y,
+      badge: { x: 150, y: RETURN_Y + 18 },
+      anchor: "middle",
+      drop: false,
+    },
+  ];
+
+  if (circuitType === "series") {
+    for (let k = 1; k < loadCount; k++) {
+      const x = 280 + (k - 1) * 90 + 45;
+      spots.push({
+        id: `LINK${k}`,
+        x,
+        y: TOP_Y,
+        badge: { x, y: TOP_Y - 20 },
+        anchor: "middle",
+        drop: true,
+      });
+    }
+  }
+
+  if (circuitType === "parallel" || circuitType === "combination") {
+    const first = circuitType === "combination" ? 1 : 0;
+    const legY = (TOP_Y + (TOP_Y + RETURN_Y) / 2 - 25) / 2;
+    for (let i = 0; i < loadCount - first; i++) {
+      const x = 700 - 35 - i * 70;
+      spots.push({
+        id: `LEG${first + i + 1}`,
+        x,
+        y: legY,
+        badge: { x: x - 8, y: legY + 4 },
+        anchor: "end",
+        drop: false,
+      });
+    }
+  }
+  return spots;
+}
+
+function WireFault({ spot, fault }: { spot: FaultSpot; fault: FaultType }) {
+  return (
+    <g>
+      {fault === "short" && spot.drop && (
+        // path to ground through the chafed insulation
+        <line
+          x1={spot.x}
+          y1={spot.y}
+          x2={spot.x}
+          y2={RETURN_Y}
+          className="wireFaultShort"
+        />
+      )}
+      <circle cx={spot.x} cy={spot.y} r={5} className={`wireFault ${fault}`} />
+      <text
+        x={spot.badge.x}
+        y={spot.badge.y}
+        textAnchor={spot.anchor}
+        className="faultBadge"
+      >
+        {faultBadge(fault)}
+      </text>
+    </g>
+  );
+}
+
 /* =======================
    SVG subcomponents
    ======================= */
 
-function Battery({ x, y }: { x: number; y: number }) {
+function Battery({
+  x,
+  y,
+  model,
+}: {
+  x: number;
+  y: number;
+  model?: CircuitViewProps["battery"];
+}) {
+  // terminal voltage sagging more than 10% below rest is flagged
+  const sagging = !!model && model.terminalV < model.emf * 0.9;
+
   return (
     <g>
       <line x1={x} y1={y - 24} x2={x} y2={y + 24} className="wire thick" />
@@ -180,6 +418,106 @@ function Battery({ x, y }: { x: number; y: number }) {
       <text x={x - 18} y={y + 45} textAnchor="end" className="label">
         Battery
       </text>
+
+      {model && (
+        <>
+          {/* the case holds the cells and their internal resistance */}
+          <rect
+            x={x - 8}
+            y={y - 32}
+            width={44}
+            height={64}
+            rx={4}
+            className="batteryCase"
+          />
+          <rect
+            x={x + 18}
+            y={y - 4}
+            width={12}
+            height={8}
+            className="internalR"
+          />
+          <text x={x + 24} y={y - 8} textAnchor="middle" className="label">
+            r
+          </text>
+
+          <text
+            x={x + 7}
+            y={y + 60}
+            textAnchor="middle"
+            className={`batteryVolts ${sagging ? "sag" : ""}`}
+          >
+            {model.terminalV.toFixed(2)} V
+          </text>
+          <text x={x + 7} y={y + 74} textAnchor="middle" className="label">
+            rest {model.emf.toFixed(2)} V · {Math.round(model.soc * 100)}%
+          </text>
+        </>
+      )}
+    </g>
+  );
+}
+
+function Fuse({
+  x,
+  y,
+  kind,
+  rating,
+  blown,
+  onClick,
+}: {
+  x: number;
+  y: number;
+  kind: ProtectionKind;
+  rating: number;
+  blown: boolean;
+  onClick?: () => void;
+}) {
+  const half = 10;
+
+  return (
+    <g onClick={onClick} style={{ cursor: onClick ? "pointer" : undefined }}>
+      <line x1={100} y1={y} x2={x - half} y2={y} className="wire" />
+      <line x1={x + half} y1={y} x2={146} y2={y} className="wire" />
+
+      <rect
+        x={x - half}
+        y={y - 6}
+        width={half * 2}
+        height={12}
+        rx={3}
+        className={`fuseBody ${blown ? "blown" : ""}`}
+      />
+      {blown ? (
+        // melted element: two stubs with a gap
+        <>
+          <line
+            x1={x - half}
+            y1={y}
+            x2={x - 3}
+            y2={y - 3}
+            className="fuseLink blown"
+          />
+          <line
+            x1={x + 3}
+            y1={y + 3}
+            x2={x + half}
+            y2={y}
+            className="fuseLink blown"
+          />
+        </>
+      ) : (
+        <line x1={x - half} y1={y} x2={x + half} y2={y} className="fuseLink" />
+      )}
+
+      <text x={x} y={y - 12} textAnchor="middle" className="label">
+        {kind === "breaker" ? `CB ${rating}A` : `${rating}A`}
+      </text>
+      {blown && (
+        <text x={x} y={y + 22} textAnchor="middle" className="faultBadge">
+          {kind === "breaker" ? "TRIPPED" : "BLOWN"}
+        </text>
+      )}
     </g>
   );
 }
@@ -218,6 +556,107 @@ function Switch({
   );
 }
 
+function RelayCircuit({
+  relay,
+  switchClosed,
+  onToggleSwitch,
+}: {
+  relay: NonNullable<CircuitViewProps["relay"]>;
+  switchClosed: boolean;
+  onToggleSwitch: () => void;
+}) {
+  const { fault, coilV, pulledIn, contactsClosed } = relay;
+  const left = 150;
+  const right = 210;
+  const gx = 154; // coil ground symbol
+
+  return (
+    <g>
+      {/* control circuit: fuse -> switch -> coil -> ground */}
+      <polyline
+        points={`136,${TOP_Y} 136,${CTRL_Y} 200,${CTRL_Y}`}
+        className="wire"
+      />
+      <Switch
+        x={230}
+        y={CTRL_Y}
+        closed={switchClosed}
+        onClick={onToggleSwitch}
+      />
+      <polyline
+        points={`260,${CTRL_Y} 300,${CTRL_Y} 300,${COIL_Y} 200,${COIL_Y}`}
+        className="wire"
+      />
+      <rect
+        x={160}
+        y={COIL_Y - 8}
+        width={40}
+        height={16}
+        rx={3}
+        className={`relayCoil ${pulledIn ? "on" : ""}`}
+      />
+      <line x1={160} y1={COIL_Y} x2={gx} y2={COIL_Y} className="wire" />
+      <line x1={gx} y1={COIL_Y} x2={gx} y2={COIL_Y + 8} className="wire" />
+      {[6, 4, 2].map((w, i) => (
+        <line
+          key={w}
+          x1={gx - w}
+          y1={COIL_Y + 8 + i * 4}
+          x2={gx + w}
+          y2={COIL_Y + 8 + i * 4}
+          className="wire"
+        />
+      ))}
+      <text x={180} y={COIL_Y - 14} textAnchor="middle" className="label">
+        Coil {coilV.toFixed(1)} V
+      </text>
+      {fault === "openCoil" && (
+        <text x={180} y={COIL_Y + 4} textAnchor="middle" className="faultBadge">
+          OPEN
+        </text>
+      )}
+
+      {/* linkage from the coil to the contact arm */}
+      <line
+        x1={180}
+        y1={COIL_Y + 8}
+        x2={180}
+        y2={contactsClosed ? TOP_Y : TOP_Y - 8}
+        className="relayLinkage"
+      />
+
+      {/* load circuit contacts */}
+      <circle cx={left} cy={TOP_Y} r={4} className="node" />
+      <circle cx={right} cy={TOP_Y} r={4} className="node" />
+      {contactsClosed ? (
+        <line
+          x1={left}
+          y1={TOP_Y}
+          x2={right}
+          y2={TOP_Y}
+          className={`wire ${fault === "burnedContacts" ? "burned" : ""}`}
+        />
+      ) : (
+        <line
+          x1={left}
+          y1={TOP_Y}
+          x2={right - 12}
+          y2={TOP_Y - 14}
+          className="wire"
+        />
+      )}
+      <text x={180} y={TOP_Y + 28} textAnchor="middle" className="label">
+        Relay
+      </text>
+      {(fault === "burnedContacts" || fault === "stuckClosed") && (
+        <text x={180} y={TOP_Y + 42} textAnchor="middle" className="faultBadge">
+          {fault === "stuckClosed" ? "STUCK" : "BURNED"}
+        </text>
+      )}
+    </g>
+  );
+}
+
 function faultBadge(f: FaultType) {
   switch (f) {
     case "open":
@@ -237,14 +676,17 @@ function Load({
   label,
   powerW,
   fault,
+  lamp,
 }: {
   x: number;
   y: number;
   label: string;
   powerW: number;
   fault: FaultType;
+  lamp: boolean; // drawn as a bulb, with rounded ends
 }) {
   const glow = clamp(powerW / 20, 0, 1);
+  const corner = lamp ? 15 : 6;
   const badge = faultBadge(fault);
 
   return (
@@ -254,9 +696,9 @@ function Load({
         y={y - 15}
         width={50}
         height={30}
-        rx={6}
-        ry={6}
-        className="load"
+        rx={corner}
+        ry={corner}
+        className={`load ${lamp ? "lamp" : ""}`}
         style={{ opacity: 0.35 + glow * 0.65 }}
       />
       {glow > 0.02 && (
@@ -265,8 +707,8 @@ function Load({
           y={y - 15}
           width={50}
           height={30}
-          rx={6}
-          ry={6}
+          rx={corner}
+          ry={corner}
           className="loadGlow"
           style={{ opacity: glow }}
         />
@@ -292,10 +734,12 @@ function SimpleCircuit({
   loadCount,
   powers,
   faults,
+  lamps,
 }: {
   loadCount: number;
   powers: number[];
   faults: FaultType[];
+  lamps: boolean[];
 }) {
   const startX = 260;
   const spacing = 90;
@@ -313,6 +757,7 @@ function SimpleCircuit({
               label={`Load ${i + 1}`}
               powerW={powers[i] ?? 0}
               fault={faults[i] ?? "normal"}
+              lamp={!!lamps[i]}
             />
             {/* wire between loads */}
             {i < loadCount - 1 && (
@@ -343,10 +788,12 @@ function SeriesCircuit({
   loadCount,
   powers,
   faults,
+  lamps,
 }: {
   loadCount: number;
   powers: number[];
   faults: FaultType[];
+  lamps: boolean[];
 }) {
   const startX = 280;
   const spacing = 90;
@@ -366,6 +813,7 @@ function SeriesCircuit({
               label={`Load ${i + 1}`}
               powerW={powers[i] ?? 0}
               fault={faults[i] ?? "normal"}
+              lamp={!!lamps[i]}
             />
             {i < loadCount - 1 && (
               <line
@@ -397,10 +845,16 @@ function ParallelCircuit({
   loadCount,
   powers,
   faults,
+  lamps,
+  railStartX = 220,
+  labelOffset = 0,
 }: {
   loadCount: number;
   powers: number[];
   faults: FaultType[];
+  lamps: boolean[];
+  railStartX?: number; // where the top rail begins (after switch / series load)
+  labelOffset?: number; // first branch is "Load {labelOffset + 1}"
 }) {
   const rightMostX = 700 - 35;
   const spacingX = 70;
@@ -414,7 +868,7 @@ function ParallelCircuit({
   return (
     <g>
       {/* Top rail */}
-      <line x1={220} y1={TOP_Y} x2={700} y2={TOP_Y} className="wire" />
+      <line x1={railStartX} y1={TOP_Y} x2={700} y2={TOP_Y} className="wire" />
 
       {/* Right side drop to return */}
       <line x1={700} y1={TOP_Y} x2={700} y2={RETURN_Y} className="wire" />
@@ -439,9 +893,10 @@ function ParallelCircuit({
               <Load
                 x={x}
                 y={yCenter}
-                label={`Load ${i + 1}`}
+                label={`Load ${labelOffset + i + 1}`}
                 powerW={powers[i] ?? 0}
                 fault={faults[i] ?? "normal"}
+                lamp={!!lamps[i]}
               />
             </g>
 
@@ -460,6 +915,140 @@ function ParallelCircuit({
   );
 }
 
+function CombinationCircuit({
+  loadCount,
+  powers,
+  faults,
+  lamps,
+}: {
+  loadCount: number;
+  powers: number[];
+  faults: FaultType[];
+  lamps: boolean[];
+}) {
+  // Load 1 in series on the top rail, feeding Loads 2..n as parallel branches
+  const seriesX = 280;
+
+  return (
+    <g>
+      <line x1={220} y1={TOP_Y} x2={seriesX - 25} y2={TOP_Y} className="wire" />
+      <Load
+        x={seriesX}
+        y={TOP_Y}
+        label="Load 1"
+        powerW={powers[0] ?? 0}
+        fault={faults[0] ?? "normal"}
+        lamp={!!lamps[0]}
+      />
+      <ParallelCircuit
+        loadCount={loadCount - 1}
+        powers={powers.slice(1)}
+        faults={faults.slice(1)}
+        lamps={lamps.slice(1)}
+        railStartX={seriesX + 25}
+        labelOffset={1}
+      />
+    </g>
+  );
+}
+
+/* =======================
+   Multimeter
+   ======================= */
+
+const METER_MODES: Array<{ mode: MeterMode; label: string }> = [
+  { mode: "volts", label: "V" },
+  { mode: "ohms", label: "Ω" },
+  { mode: "amps", label: "A" },
+];
+
+function Multimeter({
+  meter,
+  points,
+}: {
+  meter: NonNullable<CircuitViewProps["meter"]>;
+  points: ProbePoint[];
+}) {
+  const { mode, reading, red, black, onProbe, onMode } = meter;
+  const x = 300;
+  const y = 264;
+
+  return (
+    <g>
+      {/* Leads from the jacks to the probe tips */}
+      {black && (
+        <line
+          x1={x + 30}
+          y1={y}
+          x2={black.x}
+          y2={black.y}
+          className="probeLead black"
+        />
+      )}
+      {red && (
+        <line
+          x1={x + 170}
+          y1={y}
+          x2={red.x}
+          y2={red.y}
+          className="probeLead red"
+        />
+      )}
+
+      {points.map((p) => (
+        <circle
+          key={p.id}
+          cx={p.x}
+          cy={p.y}
+          r={6}
+          className={`probePoint ${
+            red?.id === p.id ? "red" : black?.id === p.id ? "black" : ""
+          }`}
+          onClick={() => onProbe(p)}
+        />
+      ))}
+
+      <rect x={x} y={y} width={200} height={84} rx={10} className="meterBody" />
+      <rect
+        x={x + 10}
+        y={y + 8}
+        width={180}
+        height={34}
+        rx={6}
+        className="meterDisplay"
+      />
+      <text x={x + 100} y={y + 32} textAnchor="middle" className="meterText">
+        {reading.display}
+      </text>
+
+      {METER_MODES.map((m, i) => (
+        <g
+          key={m.mode}
+          onClick={() => onMode(m.mode)}
+          style={{ cursor: "pointer" }}
+        >
+          <rect
+            x={x + 10 + i * 62}
+            y={y + 50}
+            width={56}
+            height={24}
+            rx={6}
+            className={`meterModeBtn ${mode === m.mode ? "active" : ""}`}
+          />
+          <text
+            x={x + 38 + i * 62}
+            y={y + 66}
+            textAnchor="middle"
+            className="label"
+          >
+            {m.label}
+          </text>
+        </g>
+      ))}
+    </g>
+  );
+}
+
 /* =======================
    Electron dots
    ======================= */
@@ -513,6 +1102,8 @@ function ParallelElectronDots({
   return (
     <g className="dots">
       {loopPaths.map((p, idx) => {
+        // a branch with no current (open load or leg) stays dark
+        if ((branchCurrents[idx] ?? 0) < 0.0001) return null;
         const iFrac = clamp((branchCurrents[idx] ?? 0) / maxI, 0.15, 1);
         const count = Math.round(6 + iFrac * 10);
 
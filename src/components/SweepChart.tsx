@@ -0,0 +1,170 @@
+import { round2 } from "../logic/electrical";
+import type { SweepSeries } from "../logic/sweep";
+
+interface SweepChartProps {
+  title: string;
+  unit: string; // of the plotted values
+  xLabel: string;
+  xs: number[];
+  series: SweepSeries[];
+  cursor: number; // the input's current value, marked on the graph
+}
+
+const WIDTH = 360;
+const HEIGHT = 200;
+const LEFT = 44;
+const RIGHT = 12;
+const TOP = 12;
+const BOTTOM = 34;
+
+const TOTAL_COLOR = "#f5b301";
+const LOAD_COLORS = ["#4fc3f7", "#28d17c", "#ff7a18", "#c792ea", "#ff5c8a"];
+
+function seriesColor(s: SweepSeries) {
+  return s.load === undefined
+    ? TOTAL_COLOR
+    : LOAD_COLORS[s.load % LOAD_COLORS.length];
+}
+
+/** About `count` round-numbered ticks covering lo..hi. */
+function ticks(lo: number, hi: number, count = 5) {
+  const raw = (hi - lo) / count;
+  if (!(raw > 0)) return [lo];
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map((m) => m * mag).filter((s) => s >= raw)[0];
+  const out: number[] = [];
+  for (let t = Math.ceil(lo / step) * step; t <= hi + step / 1e6; t += step) {
+    out.push(round2(t));
+  }
+  return out;
+}
+
+/** The series' value at `x`, read off between the two nearest points. */
+function valueAt(xs: number[], values: number[], x: number) {
+  const k = xs.findIndex((v) => v >= x);
+  if (k <= 0) return values[k < 0 ? values.length - 1 : 0];
+  const t = (x - xs[k - 1]) / (xs[k] - xs[k - 1]);
+  return values[k - 1] + (values[k] - values[k - 1]) * t;
+}
+
+export default function SweepChart(props: SweepChartProps) {
+  const { title, unit, xLabel, xs, series, cursor } = props;
+  const xMin = xs[0];
+  const xMax = xs[xs.length - 1];
+  const all = series.reduce<number[]>(
+    (acc, s) => acc.concat(s.values.filter((v) => Number.isFinite(v))),
+    []
+  );
+  const yMin = Math.min(0, ...all);
+  const yMax = Math.max(...all, yMin + 1e-9);
+  // leave headroom above the highest line; an all-zero graph still gets an axis
+  const yTop = yMax - yMin > 1e-6 ? yMax + (yMax - yMin) * 0.05 : yMin + 1;
+
+  const px = (x: number) =>
+    LEFT + ((x - xMin) / (xMax - xMin || 1)) * (WIDTH - LEFT - RIGHT);
+  const py = (y: number) =>
+    HEIGHT - BOTTOM - ((y - yMin) / (yTop - yMin)) * (HEIGHT - TOP - BOTTOM);
+  const showCursor = cursor >= xMin && cursor <= xMax;
+
+  return (
+    <div className="sweepChart">
+      <div className="blockTitle">
+        {title} ({unit})
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%">
+        {ticks(yMin, yTop).map((t) => (
+          <g key={`y${t}`}>
+            <line
+              x1={LEFT}
+              x2={WIDTH - RIGHT}
+              y1={py(t)}
+              y2={py(t)}
+              className="sweepGridLine"
+            />
+            <text
+              x={LEFT - 6}
+              y={py(t) + 4}
+              textAnchor="end"
+              className="sweepTick"
+            >
+              {t}
+            </text>
+          </g>
+        ))}
+        {ticks(xMin, xMax).map((t) => (
+          <text
+            key={`x${t}`}
+            x={px(t)}
+            y={HEIGHT - BOTTOM + 14}
+            textAnchor="middle"
+            className="sweepTick"
+          >
+            {t}
+          </text>
+        ))}
+        <line
+          x1={LEFT}
+          x2={LEFT}
+          y1={TOP}
+          y2={HEIGHT - BOTTOM}
+          className="sweepAxis"
+        />
+        <line
+          x1={LEFT}
+          x2={WIDTH - RIGHT}
+          y1={py(0)}
+          y2={py(0)}
+          className="sweepAxis"
+        />
+        <text
+          x={(LEFT + WIDTH - RIGHT) / 2}
+          y={HEIGHT - 4}
+          textAnchor="middle"
+          className="sweepTick"
+        >
+          {xLabel}
+        </text>
+
+        {series.map((s) => (
+          <polyline
+            key={s.label}
+            points={xs.map((x, k) => `${px(x)},${py(s.values[k])}`).join(" ")}
+            className="sweepLine"
+            style={{ stroke: seriesColor(s) }}
+          />
+        ))}
+
+        {showCursor && (
+          <g>
+            <line
+              x1={px(cursor)}
+              x2={px(cursor)}
+              y1={TOP}
+              y2={HEIGHT - BOTTOM}
+              className="sweepCursor"
+            />
+            {series.map((s) => (
+              <circle
+                key={s.label}
+                cx={px(cursor)}
+                cy={py(valueAt(xs, s.values, cursor))}
+                r={3.5}
+                style={{ fill: seriesColor(s) }}
+              />
+            ))}
+          </g>
+        )}
+      </svg>
+
+      <div className="sweepLegend">
+        {series.map((s) => (
+          <span key={s.label}>
+            <i style={{ background: seriesColor(s) }} />
+            {s.label}
+            {showCursor && `: ${round2(valueAt(xs, s.values, cursor))} ${unit}`}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
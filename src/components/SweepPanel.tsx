@@ -0,0 +1,132 @@
+import { useMemo } from "react";
+import SweepChart from "./SweepChart";
+import { clamp } from "../logic/electrical";
+import type { CalcOptions } from "../logic/electrical";
+import { runSweep, sweepCharts, sweepLabel, sweepRange } from "../logic/sweep";
+import type { SweepInput } from "../logic/sweep";
+
+export type Sweep = { input: SweepInput; from: number; to: number };
+
+export function defaultSweep(input: SweepInput): Sweep {
+  const range = sweepRange(input);
+  return { input, from: range.min, to: range.max };
+}
+
+interface SweepPanelProps {
+  options: CalcOptions;
+  sweep: Sweep;
+  onChange: (sweep: Sweep) => void;
+}
+
+export default function SweepPanel(props: SweepPanelProps) {
+  const { options, sweep, onChange } = props;
+  const { input, from, to } = sweep;
+  const range = sweepRange(input);
+  const ok = from < to;
+
+  const points = useMemo(
+    () => (ok ? runSweep(options, input, from, to) : []),
+    [ok, options, input, from, to]
+  );
+  const charts = useMemo(() => sweepCharts(points), [points]);
+  const xs = points.map((p) => p.x);
+  const cursor =
+    input !== "sourceV"
+      ? options.loads[input].rUser
+      : options.battery
+      ? options.battery.ocv
+      : options.sourceV;
+
+  const setEnd = (end: "from" | "to", raw: string) => {
+    const v = parseFloat(raw);
+    if (!Number.isFinite(v)) return;
+    onChange({ ...sweep, [end]: clamp(v, range.min, range.max) });
+  };
+
+  return (
+    <div>
+      <div className="inlineRow">
+        <span className="controlLabelSmall">Vary</span>
+        <select
+          className="faultSelect"
+          value={String(input)}
+          onChange={(e) =>
+            onChange(
+              defaultSweep(
+                e.target.value === "sourceV"
+                  ? "sourceV"
+                  : parseInt(e.target.value, 10)
+              )
+            )
+          }
+        >
+          <option value="sourceV">
+            {options.battery ? "Battery voltage" : "Source voltage"}
+          </option>
+          {options.loads.map((_, i) => (
+            <option key={i} value={i}>
+              Load {i + 1} resistance
+            </option>
+          ))}
+        </select>
+        <span className="controlLabelSmall">from</span>
+        <input
+          className="ohmsBox"
+          type="number"
+          min={range.min}
+          max={range.max}
+          step={range.step}
+          value={from}
+          onChange={(e) => setEnd("from", e.target.value)}
+        />
+        <span className="controlLabelSmall">to</span>
+        <input
+          className="ohmsBox"
+          type="number"
+          min={range.min}
+          max={range.max}
+          step={range.step}
+          value={to}
+          onChange={(e) => setEnd("to", e.target.value)}
+        />
+      </div>
+      <div className="hintText">
+        The line marks where the {input === "sourceV" ? "voltage" : "load"}{" "}
+        slider is now. Move it to see the readings follow the curves.
+      </div>
+
+      {!ok ? (
+        <div className="statusText">
+          Pick a range where the first value is below the second.
+        </div>
+      ) : (
+        <div className="sweepGrid">
+          <SweepChart
+            title="Current"
+            unit="A"
+            xLabel={sweepLabel(input)}
+            xs={xs}
+            series={charts.current}
+            cursor={cursor}
+          />
+          <SweepChart
+            title="Voltage"
+            unit="V"
+            xLabel={sweepLabel(input)}
+            xs={xs}
+            series={charts.voltage}
+            cursor={cursor}
+          />
+          <SweepChart
+            title="Power"
+            unit="W"
+            xLabel={sweepLabel(input)}
+            xs={xs}
+            series={charts.power}
+            cursor={cursor}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
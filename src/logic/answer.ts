@@ -0,0 +1,124 @@
+// Reading a student's typed answer: a number, optionally in scientific
+// notation, with an optional SI prefix and unit ("500 mA", "1.2k", "3e-2 W",
+// "4.7 kilohms").
+
+export type Unit = "Ω" | "A" | "V" | "W";
+
+export type ParsedAnswer =
+  | { ok: true; value: number; unit: Unit | null } // value in base units
+  | { ok: false; message: string };
+
+export const UNIT_NAMES: Record<Unit, string> = {
+  Ω: "ohms",
+  A: "amps",
+  V: "volts",
+  W: "watts",
+};
+
+const PREFIXES: Record<string, number> = {
+  µ: 1e-6, // micro sign
+  μ: 1e-6, // Greek mu, which many keyboards type instead
+  u: 1e-6,
+  m: 1e-3,
+  k: 1e3,
+  K: 1e3,
+  M: 1e6,
+};
+
+const PREFIX_WORDS: Record<string, number> = {
+  micro: 1e-6,
+  milli: 1e-3,
+  kilo: 1e3,
+  mega: 1e6,
+};
+
+const UNIT_SYMBOLS: Record<string, Unit> = {
+  Ω: "Ω",
+  ω: "Ω",
+  a: "A",
+  v: "V",
+  w: "W",
+};
+
+const UNIT_WORDS: Array<[RegExp, Unit]> = [
+  [/^(ohms?|omegas?)$/, "Ω"],
+  [/^(amps?|amperes?)$/, "A"],
+  [/^volts?$/, "V"],
+  [/^watts?$/, "W"],
+];
+
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?/i;
+
+function unitWord(word: string): Unit | null {
+  const w = word.toLowerCase();
+  const match = UNIT_WORDS.filter(([re]) => re.test(w))[0];
+  return match ? match[1] : null;
+}
+
+/** Scale and unit for what follows the number, or null if unrecognised. */
+function readSuffix(
+  suffix: string
+): { scale: number; unit: Unit | null } | null {
+  if (!suffix) return { scale: 1, unit: null };
+
+  // symbols: "k", "mA", "kΩ", "V"
+  if (PREFIXES[suffix]) return { scale: PREFIXES[suffix], unit: null };
+  const symbol = UNIT_SYMBOLS[suffix.slice(-1).toLowerCase()];
+  const head = suffix.slice(0, -1);
+  if (symbol && (!head || PREFIXES[head])) {
+    return { scale: head ? PREFIXES[head] : 1, unit: symbol };
+  }
+
+  // words: "ohms", "milliamps", "kilohms" (kilo + ohms)
+  const word = suffix.toLowerCase().replace(/^kilohm/, "kiloohm");
+  const plain = unitWord(word);
+  if (plain) return { scale: 1, unit: plain };
+  const prefix = Object.keys(PREFIX_WORDS).filter((p) => word.startsWith(p))[0];
+  if (prefix) {
+    const unit = unitWord(word.slice(prefix.length));
+    if (unit) return { scale: PREFIX_WORDS[prefix], unit };
+  }
+  // a prefix before a unit word: "k ohms", "m amps", "kilo ohms"
+  const spaced = /^(\S+)\s+(\S+)$/.exec(suffix);
+  const scale =
+    spaced && (PREFIXES[spaced[1]] || PREFIX_WORDS[spaced[1].toLowerCase()]);
+  if (spaced && scale) {
+    const unit = unitWord(spaced[2]);
+    if (unit) return { scale, unit };
+  }
+  return null;
+}
+
+/**
+ * Parse an answer box, or null if it is blank. A leading "I =" style label
+ * and thousands separators are ignored.
+ */
+export function parseAnswer(raw: string): ParsedAnswer | null {
+  const text = raw
+    .replace(/^.*[=≈]/, "")
+    .replace(/,/g, "")
+    .trim();
+  if (!raw.trim()) return null;
+
+  const num = NUMBER.exec(text);
+  if (!num) {
+    return { ok: false, message: "Enter a number, e.g. 1.5 or 500 mA." };
+  }
+
+  const suffix = text.slice(num[0].length).trim();
+  const read = readSuffix(suffix);
+  if (!read) {
+    return { ok: false, message: `Didn't recognise the unit “${suffix}”.` };
+  }
+  const value = Number(num[0]) * read.scale;
+  if (!Number.isFinite(value)) {
+    return { ok: false, message: "That number is out of range." };
+  }
+  return { ok: true, value, unit: read.unit };
+}
+
+/** Why an answer's unit can't be right for the box, or null if it can. */
+export function unitMismatch(unit: Unit | null, expected: Unit): string | null {
+  if (unit === null || unit === expected) return null;
+  return `That answer is in ${UNIT_NAMES[unit]} (${unit}), but this box asks for ${UNIT_NAMES[expected]} (${expected}).`;
+}
@@ -0,0 +1,275 @@
+// Freeform circuits: two-terminal parts placed on a snap grid. Terminals
+// that land on the same grid point are connected; wires join any two points.
+// Solved with the same nodal solver as the fixed layouts.
+
+import { solveNetlist } from "./netlist";
+import type { NetElement, Netlist } from "./netlist";
+
+export type BuilderKind = "battery" | "switch" | "fuse" | "load" | "wire";
+
+export interface GridPoint {
+  x: number; // grid columns, not pixels
+  y: number;
+}
+
+export interface BuilderPart {
+  id: string;
+  kind: BuilderKind;
+  a: GridPoint; // battery: the − terminal
+  b: GridPoint; // battery: the + terminal
+  value: number; // battery volts, load ohms, fuse amps (unused otherwise)
+  closed?: boolean; // switches
+}
+
+export interface BuilderCircuit {
+  parts: BuilderPart[];
+}
+
+export interface BuilderReading {
+  id: string;
+  v: number; // volts from a to b
+  i: number; // amps from a to b
+  p: number; // watts taken (loads) or given (batteries)
+}
+
+export type BuilderResult =
+  | { ok: false; errors: string[] }
+  | {
+      ok: true;
+      readings: Record<string, BuilderReading>;
+      blownFuses: string[];
+      notes: string[];
+      hasFlow: boolean;
+    };
+
+// Size of a placed component, in grid cells (wires are drawn to any length)
+export const PART_SPAN = 2;
+// Grid points run from 1 to these, across and down
+export const GRID_COLS = 19;
+export const GRID_ROWS = 8;
+
+export const BUILDER_LABELS: Record<BuilderKind, string> = {
+  battery: "Battery",
+  switch: "Switch",
+  fuse: "Fuse",
+  load: "Load",
+  wire: "Wire",
+};
+
+export const DEFAULT_VALUES: Record<BuilderKind, number> = {
+  battery: 12,
+  switch: 0,
+  fuse: 10,
+  load: 6,
+  wire: 0,
+};
+
+// Wires and closed contacts get a little resistance, so a battery shorted by
+// a wire still solves (to a very large current) instead of a singular matrix
+const R_WIRE = 0.001;
+// Battery current above this is reported as a short circuit
+const SHORT_I = 100;
+const I_FLOW = 1e-6;
+
+export function emptyBuilder(): BuilderCircuit {
+  return { parts: [] };
+}
+
+export function pointKey(p: GridPoint) {
+  return `${p.x},${p.y}`;
+}
+
+export function onGrid(p: GridPoint) {
+  return p.x >= 1 && p.x <= GRID_COLS && p.y >= 1 && p.y <= GRID_ROWS;
+}
+
+/** A component dropped at `at`, lying to the right. */
+export function newPart(kind: BuilderKind, at: GridPoint, id: string) {
+  const part: BuilderPart = {
+    id,
+    kind,
+    a: at,
+    b: { x: at.x + PART_SPAN, y: at.y },
+    value: DEFAULT_VALUES[kind],
+  };
+  if (kind === "switch") part.closed = true;
+  return part;
+}
+
+/** "Load 2": numbered by kind, in the order the parts were placed. */
+export function partLabel(circuit: BuilderCircuit, part: BuilderPart) {
+  const same = circuit.parts.filter((p) => p.kind === part.kind);
+  return `${BUILDER_LABELS[part.kind]} ${same.indexOf(part) + 1}`;
+}
+
+/** Quarter turn about terminal a. */
+export function rotatePart(part: BuilderPart): BuilderPart {
+  const dx = part.b.x - part.a.x;
+  const dy = part.b.y - part.a.y;
+  return { ...part, b: { x: part.a.x - dy, y: part.a.y + dx } };
+}
+
+/** Swap the terminals (reverses a battery). */
+export function flipPart(part: BuilderPart): BuilderPart {
+  return { ...part, a: part.b, b: part.a };
+}
+
+/**
+ * Problems that stop the circuit being solved: no battery, terminals that
+ * connect to nothing, and parts with no path back to any battery.
+ */
+export function validateBuilder(circuit: BuilderCircuit): string[] {
+  const { parts } = circuit;
+  if (parts.length === 0) {
+    return ["Drag a battery and some parts onto the grid to start."];
+  }
+  const errors: string[] = [];
+  if (!parts.some((p) => p.kind === "battery")) {
+    errors.push("Add a battery to power the circuit.");
+  }
+
+  const touching: Record<string, number> = {};
+  parts.forEach((p) =>
+    [p.a, p.b].forEach((t) => {
+      touching[pointKey(t)] = (touching[pointKey(t)] ?? 0) + 1;
+    })
+  );
+  parts.forEach((p) => {
+    const loose = [p.a, p.b].filter((t) => touching[pointKey(t)] === 1);
+    if (loose.length) {
+      errors.push(
+        `${partLabel(circuit, p)} has ${
+          loose.length === 2 ? "both terminals" : "a terminal"
+        } not connected to anything.`
+      );
+    }
+  });
+
+  // group the grid points that parts join, whatever state switches are in
+  const group: Record<string, string> = {};
+  const find = (k: string): string =>
+    group[k] === undefined || group[k] === k ? k : (group[k] = find(group[k]));
+  parts.forEach((p) => {
+    group[find(pointKey(p.a))] = find(pointKey(p.b));
+  });
+  const powered: Record<string, boolean> = {};
+  parts
+    .filter((p) => p.kind === "battery")
+    .forEach((p) => (powered[find(pointKey(p.a))] = true));
+  if (Object.keys(powered).length) {
+    parts
+      .filter((p) => !powered[find(pointKey(p.a))])
+      .forEach((p) =>
+        errors.push(`${partLabel(circuit, p)} isn't connected to a battery.`)
+      );
+  }
+
+  return errors;
+}
+
+function toNetlist(parts: BuilderPart[], blown: string[]): Netlist {
+  const elements: NetElement[] = [];
+  parts.forEach((p) => {
+    const a = pointKey(p.a);
+    const b = pointKey(p.b);
+    if (p.kind === "battery") {
+      elements.push({ kind: "source", id: p.id, a, b, v: p.value });
+    } else if (p.kind === "load") {
+      elements.push({ kind: "resistor", id: p.id, a, b, r: p.value });
+    } else if (p.kind === "wire") {
+      elements.push({ kind: "wire", id: p.id, a, b, r: R_WIRE });
+    } else {
+      // switches and fuses: a wire while they conduct, nothing when open
+      const conducts =
+        p.kind === "switch" ? !!p.closed : blown.indexOf(p.id) < 0;
+      elements.push({
+        kind: "wire",
+        id: p.id,
+        a,
+        b,
+        r: conducts ? R_WIRE : Number.POSITIVE_INFINITY,
+      });
+    }
+  });
+  const battery = parts.filter((p) => p.kind === "battery")[0];
+  return { ground: pointKey(battery.a), elements };
+}
+
+/** Fuses still in circuit that carry more than their rating. */
+function overloadedFuses(
+  parts: BuilderPart[],
+  blown: string[],
+  current: Record<string, number>
+) {
+  return parts.filter(
+    (p) =>
+      p.kind === "fuse" &&
+      blown.indexOf(p.id) < 0 &&
+      Math.abs(current[p.id]) > p.value
+  );
+}
+
+export function solveBuilder(circuit: BuilderCircuit): BuilderResult {
+  const errors = validateBuilder(circuit);
+  if (errors.length) return { ok: false, errors };
+  const { parts } = circuit;
+
+  // a fuse carrying more than its rating blows; solve again without it
+  const blown: string[] = [];
+  let sol = solveNetlist(toNetlist(parts, blown));
+  for (;;) {
+    const over = overloadedFuses(parts, blown, sol.current);
+    if (!over.length) break;
+    over.forEach((p) => blown.push(p.id));
+    sol = solveNetlist(toNetlist(parts, blown));
+  }
+
+  const clean = (n: number) => (Math.abs(n) < I_FLOW ? 0 : n);
+  const readings: Record<string, BuilderReading> = {};
+  parts.forEach((p) => {
+    const v = sol.nodeV[pointKey(p.b)] - sol.nodeV[pointKey(p.a)];
+    const i = sol.current[p.id];
+    // a source's current runs a -> b inside it, so it delivers v * i
+    readings[p.id] = {
+      id: p.id,
+      v: clean(v),
+      i: clean(i),
+      p: clean(p.kind === "battery" ? v * i : Math.abs(v * i)),
+    };
+  });
+
+  const notes: string[] = [];
+  blown.forEach((id) => {
+    const fuse = parts.filter((p) => p.id === id)[0];
+    notes.push(
+      `${partLabel(circuit, fuse)} blew: more than its ${
+        fuse.value
+      } A rating flowed.`
+    );
+  });
+  parts
+    .filter((p) => p.kind === "battery" && Math.abs(readings[p.id].i) > SHORT_I)
+    .forEach((p) =>
+      notes.push(
+        `${partLabel(
+          circuit,
+          p
+        )} is short-circuited: a wire joins its terminals with no load in the way.`
+      )
+    );
+  parts
+    .filter((p) => p.kind === "load" && readings[p.id].i === 0)
+    .forEach((p) =>
+      notes.push(`${partLabel(circuit, p)} has no current through it.`)
+    );
+
+  return {
+    ok: true,
+    readings,
+    blownFuses: blown,
+    notes,
+    hasFlow: parts.some(
+      (p) => p.kind === "load" && Math.abs(readings[p.id].i) > I_FLOW
+    ),
+  };
+}
@@ -0,0 +1,70 @@
+// Healthy vs faulted: the circuit as configured beside the same circuit with
+// every fault cleared, and what the faults changed.
+
+import type { CalcOptions, CalcResult } from "./electrical";
+
+export type Quantity = "V" | "I" | "P";
+
+export interface DeltaRow {
+  element: string; // "Load 2", "Circuit"
+  quantity: Quantity;
+  healthy: number;
+  faulted: number;
+  change: number; // faulted − healthy
+  changed: boolean;
+}
+
+// Readings closer than this are shown as the same (the table rounds to 0.01)
+const SAME = 0.005;
+
+/** The same circuit with no load, wire or relay faults and a good fuse. */
+export function healthyOptions(opts: CalcOptions): CalcOptions {
+  return {
+    ...opts,
+    loads: opts.loads.map((l) => ({ ...l, fault: "normal" })),
+    wireFaults: {},
+    fuse: opts.fuse && { ...opts.fuse, blown: false, tripI: undefined },
+    relay: opts.relay && { ...opts.relay, fault: "normal" },
+  };
+}
+
+/** Whether anything in `opts` differs from its healthy version. */
+export function hasFaults(opts: CalcOptions) {
+  const wires = opts.wireFaults ?? {};
+  return (
+    opts.loads.some((l) => l.fault !== "normal") ||
+    Object.keys(wires).some((id) => wires[id] !== "normal") ||
+    !!opts.fuse?.blown ||
+    (!!opts.relay && opts.relay.fault !== "normal")
+  );
+}
+
+/** Totals, then each load's voltage, current and power, side by side. */
+export function compareResults(
+  healthy: CalcResult,
+  faulted: CalcResult
+): DeltaRow[] {
+  const rows: DeltaRow[] = [];
+  const add = (element: string, quantity: Quantity, h: number, f: number) =>
+    rows.push({
+      element,
+      quantity,
+      healthy: h,
+      faulted: f,
+      change: f - h,
+      changed: Math.abs(f - h) > SAME,
+    });
+
+  if (healthy.internalR > 0) {
+    add("Battery terminals", "V", healthy.terminalV, faulted.terminalV);
+  }
+  add("Circuit", "I", healthy.totalI, faulted.totalI);
+  add("Circuit", "P", healthy.totalP, faulted.totalP);
+  healthy.rows.forEach((h, i) => {
+    const f = faulted.rows[i];
+    add(h.label, "V", h.v, f.v);
+    add(h.label, "I", h.i, f.i);
+    add(h.label, "P", h.p, f.p);
+  });
+  return rows;
+}
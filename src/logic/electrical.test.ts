@@ -0,0 +1,113 @@
+import { calcCircuit } from "./electrical";
+import type { CalcResult, CircuitType, LoadConfig } from "./electrical";
+
+const V = 12;
+
+function solve(circuitType: CircuitType, rs: number[]): CalcResult {
+  const loads: LoadConfig[] = rs.map((rUser) => ({ rUser, fault: "normal" }));
+  return calcCircuit({ circuitType, sourceV: V, switchClosed: true, loads });
+}
+
+const sum = (rs: number[]) => rs.reduce((a, b) => a + b, 0);
+const parallel = (rs: number[]) => 1 / sum(rs.map((r) => 1 / r));
+
+/** Totals follow from R (I = V / R, P = V * I), each load from its V and R. */
+function expectConsistent(c: CalcResult, totalR: number, rs: number[]) {
+  expect(c.totalR).toBeCloseTo(totalR, 9);
+  expect(c.totalI).toBeCloseTo(V / totalR, 9);
+  expect(c.totalP).toBeCloseTo((V * V) / totalR, 9);
+  c.rows.forEach((row, i) => {
+    expect(row.r).toBe(rs[i]);
+    expect(row.i).toBeCloseTo(row.v / rs[i], 9);
+    expect(row.p).toBeCloseTo(row.v * row.i, 9);
+  });
+  expect(c.hasFlow).toBe(true);
+}
+
+describe("calcCircuit", () => {
+  it("solves a simple circuit", () => {
+    const c = solve("simple", [6]);
+    expectConsistent(c, 6, [6]);
+    expect(c.rows[0].v).toBeCloseTo(V, 9);
+  });
+
+  it("adds series resistances and shares one current", () => {
+    const rs = [2, 4];
+    const c = solve("series", rs);
+    expectConsistent(c, sum(rs), rs);
+    const i = V / sum(rs);
+    c.rows.forEach((row, k) => {
+      expect(row.i).toBeCloseTo(i, 9);
+      expect(row.v).toBeCloseTo(i * rs[k], 9);
+    });
+  });
+
+  it("combines parallel branches as 1 / Σ(1/R) at the full voltage", () => {
+    const rs = [3, 6, 12];
+    const c = solve("parallel", rs);
+    expectConsistent(c, parallel(rs), rs);
+    c.rows.forEach((row, k) => {
+      expect(row.v).toBeCloseTo(V, 9);
+      expect(row.i).toBeCloseTo(V / rs[k], 9);
+    });
+  });
+
+  it("puts Load 1 in series with the rest in parallel for a combination", () => {
+    const rs = [2, 3, 6];
+    const c = solve("combination", rs);
+    const totalR = rs[0] + parallel(rs.slice(1));
+    expectConsistent(c, totalR, rs);
+    const i = V / totalR;
+    expect(c.rows[0].i).toBeCloseTo(i, 9);
+    expect(c.rows[0].v).toBeCloseTo(i * rs[0], 9);
+    c.rows.slice(1).forEach((row) => {
+      expect(row.v).toBeCloseTo(V - i * rs[0], 9);
+    });
+  });
+
+  it("reports whole-number totals without solver leakage", () => {
+    const c = solve("series", [2, 4]);
+    expect(c.totalR).toBe(6);
+    expect(c.totalI).toBe(2);
+  });
+
+  it("stops every load when a series load opens", () => {
+    const c = calcCircuit({
+      circuitType: "series",
+      sourceV: V,
+      switchClosed: true,
+      loads: [
+        { rUser: 2, fault: "normal" },
+        { rUser: 4, fault: "open" },
+      ],
+    });
+    expect(c.hasFlow).toBe(false);
+    expect(c.totalR).toBe(Number.POSITIVE_INFINITY);
+    expect(c.totalI).toBe(0);
+  });
+
+  it("reports a lamp's cold inrush even behind a fuse", () => {
+    const fuse = { kind: "fuse" as const, rating: 15, blown: false };
+    const lamp: LoadConfig = { rUser: 6, fault: "normal", kind: "lamp" };
+    const c = calcCircuit({
+      circuitType: "simple",
+      sourceV: V,
+      switchClosed: true,
+      loads: [lamp],
+      fuse,
+    });
+    // the cold filament is a tenth of its hot resistance
+    expect(c.inrushI).toBeCloseTo(V / 0.6, 6);
+    expect(c.totalI).toBeCloseTo(2, 6);
+    expect(c.fuseBlown).toBe(false);
+
+    const blown = calcCircuit({
+      circuitType: "simple",
+      sourceV: V,
+      switchClosed: true,
+      loads: [lamp],
+      fuse: { ...fuse, blown: true },
+    });
+    expect(blown.inrushI).toBe(0);
+  });
+});
@@ -1,9 +1,68 @@
+import { equivalentResistance, solveNetlist } from "./netlist";
+import type { NetElement, Netlist } from "./netlist";
+
 export type FaultType = "normal" | "high" | "open" | "short";
-export type CircuitType = "simple" | "series" | "parallel";
+export type CircuitType = "simple" | "series" | "parallel" | "combination";
+// Every circuit type, in the order the app lists them
+export const CIRCUIT_TYPES: CircuitType[] = [
+  "simple",
+  "series",
+  "parallel",
+  "combination",
+];
+
+export type ProtectionKind = "fuse" | "breaker";
+
+// Circuit protection on the source side, ahead of the switch
+export interface FuseConfig {
+  kind: ProtectionKind;
+  rating: number; // amps
+  blown: boolean; // latched open until replaced / reset
+  tripI?: number; // current that opened it (for the fault note)
+}
+
+// A real battery instead of an ideal source
+export interface BatteryConfig {
+  ocv: number; // open-circuit volts when fully charged (12.6 for lead-acid)
+  internalR: number; // ohms, when fully charged
+  soc: number; // state of charge, 0..1
+}
+
+export type RelayFault =
+  | "normal"
+  | "openCoil"
+  | "burnedContacts"
+  | "stuckClosed";
+
+// A relay: the switch drives the coil, the coil's contacts feed the loads
+export interface RelayConfig {
+  coilR: number; // ohms
+  pullInV: number; // coil volts needed to close the contacts
+  fault: RelayFault;
+}
+
+export interface RelayState {
+  coilV: number; // volts across the coil
+  coilI: number; // control-circuit current
+  pulledIn: boolean; // the coil closed the contacts
+  contactsClosed: boolean; // pulled in, or stuck closed
+}
+
+export type LoadKind = "resistor" | "lamp";
 
 export interface LoadConfig {
-  rUser: number; // user-entered resistance
+  rUser: number; // user-entered resistance (a lamp's hot resistance)
   fault: FaultType;
+  kind?: LoadKind; // omitted = fixed resistor
+}
+
+// Faults on wire segments, keyed by netlist element id (see wireSegments)
+export type WireFaults = Record<string, FaultType>;
+
+export interface WireSegment {
+  id: string; // netlist element id: FEED, LINKn, LEGn or GND
+  label: string;
+  canShort: boolean; // the ground return can't short to ground
 }
 
 export interface ElementRow {
@@ -16,14 +75,22 @@ export interface ElementRow {
 }
 
 export interface CalcResult {
-  sourceV: number;
+  sourceV: number; // open-circuit (EMF) volts
+  terminalV: number; // volts at the battery terminals under load
+  internalR: number; // source internal resistance (0 = ideal source)
   totalR: number; // Infinity if open / no current
   totalI: number;
   totalP: number;
   rows: ElementRow[];
+  wireRows: ElementRow[]; // faulted wire segments only
   faultNotes: string[]; // short descriptions for right panel
   hasFlow: boolean; // whether electrons should move
-  branchCurrents?: number[]; // for parallel animation splitting
+  netlist: Netlist; // the circuit as solved (for meter readings)
+  fuseBlown?: boolean; // protection is open in this result (undefined = no fuse)
+  fuseTripI?: number; // set when the fuse opened during this calculation
+  relay?: RelayState; // set when the loads are switched by a relay
+  inrushI?: number; // switch-on current with cold filaments (lamps only)
+  branchCurrents?: number[]; // for parallel / combination animation splitting
   elementPowers: number[]; // per load power (for brightness)
 }
 
@@ -42,8 +109,44 @@ export function round2(n: number) {
   return Math.round(n * 100) / 100;
 }
 
+// Lead-acid rule of thumb: the resting voltage falls about 6% from full
+// (12.6 V) to flat (~11.9 V), while the internal resistance roughly
+// quadruples.
+export function batteryEmf(b: BatteryConfig) {
+  return b.ocv * (0.94 + 0.06 * clamp(b.soc, 0, 1));
+}
+
+export function batteryInternalR(b: BatteryConfig) {
+  return b.internalR * (1 + 3 * (1 - clamp(b.soc, 0, 1)));
+}
+
+// Incandescent lamp: rUser is its hot resistance at rated power (12 V).
+// Cold tungsten has about a tenth of that resistance, and since filament
+// temperature goes as P^(1/4) and resistance as T^1.2, R grows as P^0.3.
+const LAMP_RATED_V = 12;
+const LAMP_COLD_RATIO = 10;
+const LAMP_EXPONENT = 0.3;
+const LAMP_MAX_ITER = 60;
+
+export function lampColdR(rUser: number) {
+  return clamp(rUser, 1, 25) / LAMP_COLD_RATIO;
+}
+
+/** Steady-state filament resistance while it dissipates `p` watts. */
+export function lampResistance(rUser: number, p: number) {
+  const hot = clamp(rUser, 1, 25);
+  const pRated = (LAMP_RATED_V * LAMP_RATED_V) / hot;
+  return Math.max(
+    lampColdR(rUser),
+    hot * Math.pow(Math.max(p, 0) / pRated, LAMP_EXPONENT)
+  );
+}
+
 export function effectiveResistance(rUser: number, fault: FaultType): number {
-  const r = clamp(rUser, 1, 25);
+  return faultedResistance(clamp(rUser, 1, 25), fault);
+}
+
+function faultedResistance(r: number, fault: FaultType): number {
   switch (fault) {
     case "normal":
       return r;
@@ -58,6 +161,19 @@ export function effectiveResistance(rUser: number, fault: FaultType): number {
   }
 }
 
+export function relayFaultDescription(fault: RelayFault): string {
+  switch (fault) {
+    case "openCoil":
+      return "Relay coil open: the switch works but the relay never clicks, so the loads stay off.";
+    case "burnedContacts":
+      return "Burned relay contacts add resistance to the load circuit, so the loads run dim.";
+    case "stuckClosed":
+      return "Relay stuck closed: the loads stay on even with the switch off.";
+    default:
+      return "";
+  }
+}
+
 export function faultDescription(fault: FaultType): string {
   switch (fault) {
     case "high":
@@ -71,174 +187,504 @@ export function faultDescription(fault: FaultType): string {
   }
 }
 
-export function calcCircuit(opts: {
+export function wireFaultDescription(fault: FaultType): string {
+  switch (fault) {
+    case "high":
+      return "corroded connector, so less voltage reaches the loads.";
+    case "open":
+      return "broken wire or loose connector, so nothing past it gets current.";
+    case "short":
+      return "insulation rubbed through to ground, bypassing everything past it.";
+    default:
+      return "";
+  }
+}
+
+function loadStatus(fault: FaultType) {
+  return fault === "normal" ? "Normal" : fault;
+}
+
+/** The wire segments of a circuit that can carry a fault, in drawing order. */
+export function wireSegments(
+  circuitType: CircuitType,
+  loadCount: number
+): WireSegment[] {
+  const segs: WireSegment[] = [
+    { id: "FEED", label: "Power feed", canShort: true },
+  ];
+  if (circuitType === "series") {
+    for (let k = 1; k < loadCount; k++) {
+      segs.push({
+        id: `LINK${k}`,
+        label: `Wire Load ${k} → ${k + 1}`,
+        canShort: true,
+      });
+    }
+  }
+  if (circuitType === "parallel" || circuitType === "combination") {
+    const first = circuitType === "combination" ? 2 : 1;
+    for (let k = first; k <= loadCount; k++) {
+      segs.push({ id: `LEG${k}`, label: `Branch ${k} leg`, canShort: true });
+    }
+  }
+  segs.push({ id: "GND", label: "Ground return", canShort: false });
+  return segs;
+}
+
+/**
+ * Describe a circuit as a netlist. Every wire drawn in the schematic is its
+ * own element, so a meter can be placed across (or in series with) any of
+ * them:
+ *   SRC   gnd -> bat       battery (+ at "bat")
+ *         gnd -> emf       ...or, with internal resistance, the cell's EMF
+ *   RINT  emf -> bat       and its internal resistance (battery model only)
+ *   FUSE  bat -> fuse      fuse / breaker (a plain wire when unprotected)
+ *   FEED  fuse -> swIn     power feed before the switch
+ *   SW    swIn -> swOut
+ *   K     swIn -> swOut    ...or relay contacts, with the switch moved to the
+ *                          control circuit (relay only):
+ *   CFEED fuse -> ctlIn    control feed
+ *   SW    ctlIn -> ctlOut  the switch, driving
+ *   COIL  ctlOut -> coilOut  the relay coil
+ *   CGND  coilOut -> gnd   coil ground
+ *   LEAD  swOut -> L1+     switch to first load (simple / series / combination)
+ *   Ln    Ln+ -> Ln-       loads, carrying their effective (faulted) resistance
+ *   LINKn Ln- -> Ln+1+     between series loads
+ *   LEGn  rail -> Ln+      parallel branch legs (rail is swOut, or L1- in combination)
+ *   GND   last node -> gnd ground return
+ * A faulted FEED, LINK, LEG or GND wire carries a resistance (high / open); a
+ * shorted one also gets a resistor "<id>.SHORT" from its far end to ground.
+ */
+export function buildCircuitNetlist(opts: {
+  circuitType: CircuitType;
+  sourceV: number;
+  switchClosed: boolean;
+  loadR: number[];
+  fuseBlown?: boolean; // undefined = no fuse fitted
+  wireFaults?: WireFaults;
+  internalR?: number; // source internal resistance, omit for ideal
+  relay?: { coilR: number; contactsClosed: boolean; contactR?: number };
+}): Netlist {
+  const { circuitType, sourceV, switchClosed, loadR, fuseBlown } = opts;
+  const wireFaults = opts.wireFaults ?? {};
+
+  const elements: NetElement[] = opts.internalR
+    ? [
+        { kind: "source", id: "SRC", a: "gnd", b: "emf", v: sourceV },
+        { kind: "resistor", id: "RINT", a: "emf", b: "bat", r: opts.internalR },
+      ]
+    : [{ kind: "source", id: "SRC", a: "gnd", b: "bat", v: sourceV }];
+  elements.push(
+    fuseBlown === undefined
+      ? { kind: "wire", id: "FUSE", a: "bat", b: "fuse" }
+      : { kind: "fuse", id: "FUSE", a: "bat", b: "fuse", blown: fuseBlown }
+  );
+  const wire = (id: string, a: string, b: string) => {
+    const fault = wireFaults[id] ?? "normal";
+    if (fault === "high" || fault === "open") {
+      const r = fault === "high" ? R_HIGH_ADD : R_OPEN;
+      elements.push({ kind: "wire", id, a, b, r });
+      return;
+    }
+    elements.push({ kind: "wire", id, a, b });
+    if (fault === "short") {
+      elements.push({
+        kind: "resistor",
+        id: `${id}.SHORT`,
+        a: b,
+        b: "gnd",
+        r: R_SHORT,
+      });
+    }
+  };
+  const load = (idx: number, a: string, b: string) =>
+    elements.push({ kind: "resistor", id: `L${idx + 1}`, a, b, r: loadR[idx] });
+
+  wire("FEED", "fuse", "swIn");
+  const relay = opts.relay;
+  if (!relay) {
+    elements.push({
+      kind: "switch",
+      id: "SW",
+      a: "swIn",
+      b: "swOut",
+      closed: switchClosed,
+    });
+  } else {
+    elements.push(
+      { kind: "wire", id: "CFEED", a: "fuse", b: "ctlIn" },
+      {
+        kind: "switch",
+        id: "SW",
+        a: "ctlIn",
+        b: "ctlOut",
+        closed: switchClosed,
+      },
+      {
+        kind: "resistor",
+        id: "COIL",
+        a: "ctlOut",
+        b: "coilOut",
+        r: relay.coilR,
+      },
+      { kind: "wire", id: "CGND", a: "coilOut", b: "gnd" },
+      relay.contactsClosed && relay.contactR
+        ? {
+            kind: "resistor",
+            id: "K",
+            a: "swIn",
+            b: "swOut",
+            r: relay.contactR,
+          }
+        : {
+            kind: "switch",
+            id: "K",
+            a: "swIn",
+            b: "swOut",
+            closed: relay.contactsClosed,
+          }
+    );
+  }
+
+  if (circuitType === "parallel" || circuitType === "combination") {
+    const first = circuitType === "combination" ? 1 : 0;
+    const rail = first ? "L1-" : "swOut";
+    if (first) {
+      wire("LEAD", "swOut", "L1+");
+      load(0, "L1+", "L1-");
+    }
+    for (let idx = first; idx < loadR.length; idx++) {
+      wire(`LEG${idx + 1}`, rail, `L${idx + 1}+`);
+      load(idx, `L${idx + 1}+`, "ret");
+    }
+    wire("GND", "ret", "gnd");
+  } else {
+    // simple / series: one chain of loads
+    wire("LEAD", "swOut", "L1+");
+    loadR.forEach((_, idx) => {
+      load(idx, `L${idx + 1}+`, `L${idx + 1}-`);
+      if (idx < loadR.length - 1) {
+        wire(`LINK${idx + 1}`, `L${idx + 1}-`, `L${idx + 2}+`);
+      }
+    });
+    wire("GND", `L${loadR.length}-`, "gnd");
+  }
+
+  return { ground: "gnd", elements };
+}
+
+function fuseNote(
+  fuse: FuseConfig,
+  tripI: number | undefined,
+  hasShort: boolean
+) {
+  const name = fuse.kind === "breaker" ? "breaker" : "fuse";
+  const action =
+    fuse.kind === "breaker" ? "reset the breaker" : "replace the fuse";
+  const amps = tripI ?? fuse.tripI;
+
+  if (amps === undefined) {
+    return `The ${fuse.rating} A ${name} is open, so nothing past it has power. Find the cause, then ${action}.`;
+  }
+  const why = hasShort
+    ? "A short to ground bypasses the load resistance, so current soars."
+    : "The loads drew more than the circuit is rated for (overload).";
+  return `${
+    name === "fuse" ? "Fuse blown" : "Breaker tripped"
+  }: the circuit tried to draw ${round1(amps)} A through a ${
+    fuse.rating
+  } A ${name}. ${why} Every load stays off until you ${action}.`;
+}
+
+export type CalcOptions = {
   circuitType: CircuitType;
   sourceV: number;
   switchClosed: boolean;
   loads: LoadConfig[]; // already sliced to active count
-}): CalcResult {
-  const { circuitType, sourceV, switchClosed, loads } = opts;
+  fuse?: FuseConfig; // omit for an unprotected circuit
+  wireFaults?: WireFaults;
+  battery?: BatteryConfig; // replaces the ideal sourceV when given
+  relay?: RelayConfig; // the switch drives a relay instead of the loads
+};
+
+/**
+ * One damped step of the lamp iteration: each filament moves halfway to the
+ * resistance it would have at the power it just dissipated.
+ */
+function filamentStep(
+  loads: LoadConfig[],
+  filament: number[],
+  rows: ElementRow[]
+) {
+  const next = filament.map((r, i) => {
+    if (loads[i].kind !== "lamp") return r;
+    const lit = loads[i].fault === "normal" || loads[i].fault === "high";
+    const p = lit ? rows[i].i * rows[i].i * r : 0;
+    return 0.5 * (r + lampResistance(loads[i].rUser, p));
+  });
+  const settled = next.every((r, i) => Math.abs(r - filament[i]) <= r * 1e-4);
+  return { next, settled };
+}
+
+export function calcCircuit(opts: CalcOptions): CalcResult {
+  const { loads } = opts;
+  const isLamp = loads.map((l) => l.kind === "lamp");
+  const effFor = (filament: number[]) =>
+    loads.map((l, i) =>
+      isLamp[i]
+        ? faultedResistance(filament[i], l.fault)
+        : effectiveResistance(l.rUser, l.fault)
+    );
+  if (!isLamp.some((x) => x)) return solveCircuit(opts, effFor([]));
+
+  // A filament's resistance depends on the power it dissipates: iterate
+  // (damped) from hot until every lamp settles
+  let filament = loads.map((l) => clamp(l.rUser, 1, 25));
+  let result = solveCircuit(opts, effFor(filament));
+  for (let iter = 0; iter < LAMP_MAX_ITER; iter++) {
+    const { next, settled } = filamentStep(loads, filament, result.rows);
+    filament = next;
+    result = solveCircuit(opts, effFor(filament));
+    if (settled) break;
+  }
+
+  // At switch-on every filament is still cold. The surge is over before a
+  // fuse could open, so only one that has already blown stops it.
+  const cold = loads.map((l) => lampColdR(l.rUser));
+  const inrushI = solveCircuit(
+    { ...opts, fuse: opts.fuse?.blown ? opts.fuse : undefined },
+    effFor(cold)
+  ).totalI;
+  return { ...result, inrushI };
+}
+
+function solveCircuit(opts: CalcOptions, effR: number[]): CalcResult {
+  const { circuitType, switchClosed, loads, fuse, battery, relay } = opts;
+  const sourceV = battery ? batteryEmf(battery) : opts.sourceV;
+  const internalR = battery ? batteryInternalR(battery) : 0;
+  const wireFaults = opts.wireFaults ?? {};
+  const faultedWires = wireSegments(circuitType, loads.length).filter(
+    (seg) => (wireFaults[seg.id] ?? "normal") !== "normal"
+  );
+
+  const build = (fuseBlown?: boolean, contactsClosed = false) =>
+    buildCircuitNetlist({
+      circuitType,
+      sourceV,
+      switchClosed,
+      loadR: effR,
+      fuseBlown,
+      wireFaults,
+      internalR,
+      relay: relay && {
+        coilR: relay.fault === "openCoil" ? R_OPEN : relay.coilR,
+        contactsClosed,
+        contactR: relay.fault === "burnedContacts" ? R_HIGH_ADD : undefined,
+      },
+    });
+
+  // The relay pulls in when its coil (solved with the contacts still open)
+  // reaches the pull-in voltage
+  const pullsIn = (fuseBlown?: boolean) => {
+    if (!relay || relay.fault === "openCoil") return false;
+    const probe = solveNetlist(build(fuseBlown));
+    return probe.nodeV.ctlOut - probe.nodeV.coilOut >= relay.pullInV;
+  };
+  let pulledIn = pullsIn(fuse?.blown);
+  const contactsFor = (pulled: boolean) =>
+    pulled || relay?.fault === "stuckClosed";
+  let net = build(fuse?.blown, contactsFor(pulledIn));
+
+  // Over its rating the fuse opens, and the circuit is solved again without it
+  let fuseTripI: number | undefined;
+  if (fuse && !fuse.blown) {
+    const iFuse = Math.abs(solveNetlist(net).current.FUSE);
+    if (iFuse > fuse.rating) {
+      fuseTripI = iFuse;
+      pulledIn = pullsIn(true);
+      net = build(true, contactsFor(pulledIn));
+    }
+  }
+  const fuseBlown = fuse ? fuse.blown || fuseTripI !== undefined : undefined;
+  const hasShort =
+    loads.some((l) => l.fault === "short") ||
+    faultedWires.some((seg) => wireFaults[seg.id] === "short");
+  const protectionNotes =
+    fuse && fuseBlown ? [fuseNote(fuse, fuseTripI, hasShort)] : [];
+
+  const sol = solveNetlist(net);
+  // totals are for the load circuit: leave out the relay's control circuit
+  const loadNet: Netlist = {
+    ground: net.ground,
+    elements: net.elements.filter((el) => el.id !== "CFEED"),
+  };
+  const totalR = equivalentResistance(loadNet, "bat", "gnd");
+  const totalI = isFinite(totalR)
+    ? sol.current.SRC - (sol.current.COIL ?? 0)
+    : 0;
+  const terminalV = sol.nodeV.bat;
+
+  const relayState: RelayState | undefined = relay && {
+    coilV: sol.nodeV.ctlOut - sol.nodeV.coilOut,
+    coilI: sol.current.COIL,
+    pulledIn,
+    contactsClosed: contactsFor(pulledIn),
+  };
+  const relayNotes: string[] = [];
+  if (relay) {
+    const d = relayFaultDescription(relay.fault);
+    if (d) relayNotes.push(d);
+    if (relay.fault === "normal" && switchClosed && !pulledIn && !fuseBlown) {
+      relayNotes.push(
+        `The coil gets ${round1(relayState?.coilV ?? 0)} V, below its ${round1(
+          relay.pullInV
+        )} V pull-in, so the relay never closes.`
+      );
+    }
+  }
+  const loadSwitched = relay ? contactsFor(pulledIn) : switchClosed;
+
+  let wireRows: ElementRow[] = faultedWires.map((seg) => {
+    const fault = wireFaults[seg.id];
+    const el = net.elements.filter((e) => e.id === seg.id)[0];
+    // a short is read across the path to ground, not along the wire
+    const v =
+      fault === "short" ? sol.nodeV[el.b] : sol.nodeV[el.a] - sol.nodeV[el.b];
+    const i = sol.current[fault === "short" ? `${seg.id}.SHORT` : seg.id];
+    return {
+      label: seg.label,
+      v,
+      i,
+      r: fault === "short" ? R_SHORT : fault === "open" ? R_OPEN : R_HIGH_ADD,
+      p: v * i,
+      status: fault,
+    };
+  });
+  const wireNotes = faultedWires.map(
+    (seg) => `${seg.label}: ${wireFaultDescription(wireFaults[seg.id])}`
+  );
 
-  // If switch is open: no current anywhere (acts like open circuit)
-  if (!switchClosed) {
+  // If switch is open: no current through the loads (acts like open circuit).
+  // A short on the feed is ahead of the switch, so it can still draw current.
+  if (!loadSwitched) {
     return {
       sourceV,
-      totalR: Number.POSITIVE_INFINITY,
-      totalI: 0,
-      totalP: 0,
-      rows: loads.map((l, idx) => ({
+      terminalV,
+      internalR,
+      totalR,
+      totalI,
+      totalP: terminalV * totalI,
+      rows: loads.map((_, idx) => ({
         label: `Load ${idx + 1}`,
         v: 0,
         i: 0,
-        r: effectiveResistance(l.rUser, l.fault),
+        r: effR[idx],
         p: 0,
-        status: "Switch Open",
+        status: relay ? "Relay Open" : "Switch Open",
       })),
-      faultNotes: [],
+      wireRows,
+      faultNotes: [...protectionNotes, ...relayNotes, ...wireNotes],
       hasFlow: false,
+      netlist: net,
+      fuseBlown,
+      fuseTripI,
+      relay: relayState,
       branchCurrents:
-        circuitType === "parallel" ? loads.map(() => 0) : undefined,
+        circuitType === "parallel"
+          ? loads.map(() => 0)
+          : circuitType === "combination"
+          ? loads.slice(1).map(() => 0)
+          : undefined,
       elementPowers: loads.map(() => 0),
     };
   }
 
-  const effR = loads.map((l) => effectiveResistance(l.rUser, l.fault));
-  const notes: string[] = [];
+  const notes: string[] = [...protectionNotes, ...relayNotes];
   loads.forEach((l) => {
     const d = faultDescription(l.fault);
     if (d) notes.push(d);
   });
+  notes.push(...wireNotes);
 
-  if (circuitType === "simple") {
-    const r1 = effR[0];
-    const totalR = r1;
-    const totalI = isFinite(totalR) ? sourceV / totalR : 0;
-    const v1 = sourceV; // simple loop
-    const p1 = v1 * totalI;
+  const hasFlow = totalI > 0.0001;
 
+  let rows: ElementRow[] = loads.map((l, idx) => {
+    const el = net.elements.filter((e) => e.id === `L${idx + 1}`)[0];
+    const v = sol.nodeV[el.a] - sol.nodeV[el.b];
+    const i = sol.current[el.id];
     return {
-      sourceV,
-      totalR,
-      totalI,
-      totalP: p1,
-      rows: [
-        {
-          label: "Load 1",
-          v: v1,
-          i: totalI,
-          r: r1,
-          p: p1,
-          status: loads[0].fault === "normal" ? "Normal" : loads[0].fault,
-        },
-      ],
-      faultNotes: notes,
-      hasFlow: totalI > 0.0001,
-      elementPowers: [p1],
+      label: `Load ${idx + 1}`,
+      v,
+      i,
+      r: effR[idx],
+      p: v * i,
+      status: loadStatus(l.fault),
     };
-  }
-
-  if (circuitType === "series") {
-    // Any open in series -> total current ~0
-    const hasOpen = effR.some((r) => !isFinite(r));
-    if (hasOpen) {
-      return {
-        sourceV,
-        totalR: Number.POSITIVE_INFINITY,
-        totalI: 0,
-        totalP: 0,
-        rows: loads.map((l, idx) => ({
-          label: `Load ${idx + 1}`,
-          v: 0,
-          i: 0,
-          r: effR[idx],
-          p: 0,
-          status:
-            l.fault === "open"
-              ? "Open Circuit"
-              : l.fault === "normal"
-              ? "Normal"
-              : l.fault,
-        })),
-        faultNotes: notes.length
-          ? notes
-          : ["Open circuit in series: loop current is ~0 A."],
-        hasFlow: false,
-        elementPowers: loads.map(() => 0),
-      };
-    }
-
-    const totalR = effR.reduce((a, b) => a + b, 0);
-    const totalI = sourceV / totalR;
-
-    const rows: ElementRow[] = [];
-    const powers: number[] = [];
-    for (let i = 0; i < loads.length; i++) {
-      const v = totalI * effR[i];
-      const p = totalI * totalI * effR[i];
-      powers.push(p);
-      rows.push({
-        label: `Load ${i + 1}`,
-        v,
-        i: totalI,
-        r: effR[i],
-        p,
-        status: loads[i].fault === "normal" ? "Normal" : loads[i].fault,
-      });
-    }
+  });
 
-    return {
-      sourceV,
-      totalR,
-      totalI,
-      totalP: rows.reduce((s, r) => s + r.p, 0),
-      rows,
-      faultNotes: notes,
-      hasFlow: totalI > 0.0001,
-      elementPowers: powers,
-    };
+  // A loop with no current reads 0 V on every row; finding where the loop
+  // is broken is a job for the meter, not the table.
+  const loopOpen = !isFinite(totalR);
+  if (loopOpen && (circuitType === "series" || circuitType === "combination")) {
+    rows = rows.map((r) => ({ ...r, v: 0, i: 0, p: 0 }));
+    wireRows = wireRows.map((r) => ({ ...r, v: 0, i: 0, p: 0 }));
   }
 
-  // parallel
-  const branchI: number[] = [];
-  const rows: ElementRow[] = [];
-  const powers: number[] = [];
-
-  for (let i = 0; i < loads.length; i++) {
-    const r = effR[i];
-    const iBranch = isFinite(r) ? sourceV / r : 0;
-    const p = sourceV * iBranch;
-    branchI.push(iBranch);
-    powers.push(p);
-    rows.push({
-      label: `Load ${i + 1}`,
-      v: sourceV,
-      i: iBranch,
-      r,
-      p,
-      status: loads[i].fault === "normal" ? "Normal" : loads[i].fault,
-    });
+  if (circuitType === "series" && loopOpen) {
+    rows = rows.map((r, idx) => ({
+      ...r,
+      status: loads[idx].fault === "open" ? "Open Circuit" : r.status,
+    }));
+    if (!notes.length)
+      notes.push("Open circuit in series: loop current is ~0 A.");
   }
 
-  const totalI = branchI.reduce((a, b) => a + b, 0);
-  const totalR = totalI > 0 ? sourceV / totalI : Number.POSITIVE_INFINITY;
-  const totalP = powers.reduce((a, b) => a + b, 0);
+  if (circuitType === "combination") {
+    if (!isFinite(effR[0])) {
+      notes.push(
+        "Load 1 is in series with every branch, so all loads are off."
+      );
+    } else if (loopOpen && !fuseBlown && !faultedWires.length) {
+      notes.push("Every parallel branch is open, so no current can return.");
+    }
+    if (loads.slice(1).some((l) => l.fault === "short")) {
+      notes.push(
+        "A shorted branch bypasses the others, so Load 1 drops almost all of the voltage."
+      );
+    }
+  }
 
   // Add a helpful note if a short exists
-  if (loads.some((l) => l.fault === "short")) {
+  if (circuitType === "parallel" && loads.some((l) => l.fault === "short")) {
     notes.push(
       "A shorted branch has nearly 0 Ω, so it draws most of the current."
     );
   }
 
+  const powers = rows.map((r) => r.p);
+  const wireP = wireRows.reduce((sum, r) => sum + r.p, 0);
+
   return {
     sourceV,
+    terminalV,
+    internalR,
     totalR,
     totalI,
-    totalP,
+    totalP: powers.reduce((a, b) => a + b, 0) + wireP,
     rows,
+    wireRows,
     faultNotes: notes,
-    hasFlow: totalI > 0.0001,
-    branchCurrents: branchI,
+    hasFlow,
+    netlist: net,
+    fuseBlown,
+    fuseTripI,
+    relay: relayState,
+    branchCurrents:
+      circuitType === "parallel"
+        ? rows.map((r) => r.i)
+        : circuitType === "combination"
+        ? rows.slice(1).map((r) => r.i)
+        : undefined,
     elementPowers: powers,
   };
 }
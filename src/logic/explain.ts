@@ -0,0 +1,243 @@
+// "What changed" narration: when one control moves, say what caused the new
+// readings in plain words, e.g. "Load 2 opened, so series current dropped to
+// 0 and every load went dark."
+
+import { round1, round2, wireSegments } from "./electrical";
+import type {
+  CalcOptions,
+  CalcResult,
+  CircuitType,
+  FaultType,
+} from "./electrical";
+
+export interface CircuitState {
+  options: CalcOptions;
+  calc: CalcResult;
+}
+
+// Readings within this fraction of each other count as unchanged
+const SAME_FRACTION = 0.01;
+const SAME_ABS = 0.005;
+// Below this a load counts as dark
+const DARK_W = 0.01;
+
+function changed(a: number, b: number) {
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return a !== b;
+  return Math.abs(a - b) > Math.max(SAME_ABS, SAME_FRACTION * Math.abs(a));
+}
+
+function risesOrFalls(a: number, b: number) {
+  return b > a ? "rose" : "fell";
+}
+
+/** "Load 1", "Load 1 and Load 3", "Load 1, Load 2 and Load 3". */
+function listOf(items: string[]) {
+  return items.length < 2
+    ? items.join("")
+    : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function faultVerb(subject: string, fault: FaultType) {
+  switch (fault) {
+    case "open":
+      return `${subject} opened`;
+    case "short":
+      return `${subject} shorted`;
+    case "high":
+      return `${subject} developed high resistance`;
+    default:
+      return `${subject} was repaired`;
+  }
+}
+
+/**
+ * What the student changed between two circuits, or null when nothing was
+ * (the fuse latching open after it blew is a result, not a cause).
+ * `unexplained` is set for changes that aren't narrated: lamp or resistor,
+ * the battery's condition, the relay and the fuse rating.
+ */
+function causes(
+  a: CalcOptions,
+  b: CalcOptions
+): { said: string[]; unexplained: boolean } | null {
+  const said: string[] = [];
+  let unexplained = false;
+  if (a.switchClosed !== b.switchClosed) {
+    said.push(b.switchClosed ? "The switch closed" : "The switch opened");
+  }
+  const va = a.battery ? a.battery.ocv : a.sourceV;
+  const vb = b.battery ? b.battery.ocv : b.sourceV;
+  if (va !== vb) {
+    said.push(
+      `The ${a.battery ? "battery" : "source"} voltage ${risesOrFalls(
+        va,
+        vb
+      )} from ${round2(va)} V to ${round2(vb)} V`
+    );
+  }
+  a.loads.forEach((la, i) => {
+    const lb = b.loads[i];
+    if (la.rUser !== lb.rUser) {
+      said.push(
+        `Load ${i + 1}'s resistance ${risesOrFalls(la.rUser, lb.rUser)} from ${
+          la.rUser
+        } Ω to ${lb.rUser} Ω`
+      );
+    }
+    if (la.fault !== lb.fault) {
+      said.push(faultVerb(`Load ${i + 1}`, lb.fault));
+    }
+    if (la.kind !== lb.kind) unexplained = true;
+  });
+  wireSegments(a.circuitType, a.loads.length).forEach((seg) => {
+    const fa = a.wireFaults?.[seg.id] ?? "normal";
+    const fb = b.wireFaults?.[seg.id] ?? "normal";
+    if (fa !== fb) said.push(faultVerb(`The ${seg.label.toLowerCase()}`, fb));
+  });
+  if (a.fuse?.blown && b.fuse && !b.fuse.blown) {
+    said.push(
+      b.fuse.kind === "breaker"
+        ? "The breaker was reset"
+        : "The fuse was replaced"
+    );
+  }
+  if (
+    !!a.fuse !== !!b.fuse ||
+    a.fuse?.rating !== b.fuse?.rating ||
+    a.fuse?.kind !== b.fuse?.kind ||
+    !!a.battery !== !!b.battery ||
+    a.battery?.internalR !== b.battery?.internalR ||
+    a.battery?.soc !== b.battery?.soc ||
+    JSON.stringify(a.relay) !== JSON.stringify(b.relay)
+  ) {
+    unexplained = true;
+  }
+  return said.length || unexplained ? { said, unexplained } : null;
+}
+
+function currentName(ct: CircuitType) {
+  return ct === "series"
+    ? "series current"
+    : ct === "simple"
+    ? "the current"
+    : "total current";
+}
+
+/** What the new readings show, compared with the old. */
+function effects(a: CalcResult, b: CalcResult, options: CalcOptions) {
+  const ct = options.circuitType;
+  if (b.fuseTripI !== undefined && options.fuse) {
+    const breaker = options.fuse.kind === "breaker";
+    return [
+      `the ${breaker ? "breaker tripped" : "fuse blew"}: ${round1(
+        b.fuseTripI
+      )} A is more than its ${options.fuse.rating} A rating`,
+      "every load went dark",
+    ];
+  }
+  if (!b.hasFlow) {
+    return [`${currentName(ct)} dropped to 0`, "every load went dark"];
+  }
+
+  const out: string[] = [];
+  if (!a.hasFlow) {
+    out.push(`current flows again: ${round2(b.totalI)} A`);
+  } else {
+    if (changed(a.totalR, b.totalR)) {
+      out.push(
+        `total resistance ${risesOrFalls(a.totalR, b.totalR)} to ${
+          Number.isFinite(b.totalR) ? round2(b.totalR) : "∞"
+        } Ω`
+      );
+    }
+    if (changed(a.totalI, b.totalI)) {
+      out.push(
+        `${currentName(ct)} ${risesOrFalls(a.totalI, b.totalI)} from ${round2(
+          a.totalI
+        )} A to ${round2(b.totalI)} A`
+      );
+    }
+  }
+
+  const dark: string[] = [];
+  const lit: string[] = [];
+  const brighter: string[] = [];
+  const dimmer: string[] = [];
+  b.rows.forEach((rb, i) => {
+    // a shorted load is bypassed: its "power" is only the short's heat
+    if (options.loads[i].fault === "short") return;
+    const pa = a.rows[i].p;
+    if (pa > DARK_W && rb.p <= DARK_W) dark.push(rb.label);
+    else if (pa <= DARK_W && rb.p > DARK_W) lit.push(rb.label);
+    else if (rb.p > DARK_W && changed(pa, rb.p)) {
+      (rb.p > pa ? brighter : dimmer).push(rb.label);
+    }
+  });
+  const all = b.rows.length;
+  const each = (names: string[], what: string) => {
+    if (!names.length) return;
+    out.push(
+      names.length === all && all > 1
+        ? `every load ${what}`
+        : `${listOf(names)} ${what}`
+    );
+  };
+  each(dark, "went dark");
+  each(lit, "lit up");
+  each(brighter, "got brighter");
+  each(dimmer, "got dimmer");
+  const touched = dark.length + lit.length + brighter.length + dimmer.length;
+  if (touched > 0 && touched < all && ct !== "series") {
+    out.push(
+      ct === "parallel"
+        ? "the other branches still get the full voltage, so they're unchanged"
+        : "the other loads are unchanged"
+    );
+  }
+  if (!out.length) out.push("no reading changed");
+  return out;
+}
+
+/** A parallel branch that takes most of the current because it is shorted. */
+function shortShare(b: CalcResult, options: CalcOptions): string | null {
+  const { circuitType: ct, loads } = options;
+  if ((ct !== "parallel" && ct !== "combination") || !b.hasFlow) return null;
+  const branchI = ct === "combination" ? b.rows[0].i : b.totalI;
+  const k = loads.findIndex(
+    (l, i) => l.fault === "short" && (ct === "parallel" || i > 0)
+  );
+  if (k < 0 || branchI <= 0) return null;
+  const share = b.rows[k].i / branchI;
+  if (share < 0.5) return null;
+  return `The ${
+    ct === "parallel" ? "total resistance in parallel" : "branches' resistance"
+  } is low because the shorted branch (Load ${k + 1}) now draws ${Math.round(
+    share * 100
+  )}% of the current.`;
+}
+
+/**
+ * Plain-language cause and effect for the step from `prev` to `next`: one
+ * or two sentences, [] when it can't be put down to a single change (a new
+ * question, a different circuit), or null when nothing was changed.
+ */
+export function explainChange(
+  prev: CircuitState,
+  next: CircuitState
+): string[] | null {
+  const a = prev.options;
+  const b = next.options;
+  if (a.circuitType !== b.circuitType || a.loads.length !== b.loads.length) {
+    return [];
+  }
+  const found = causes(a, b);
+  if (!found) return null;
+  if (found.unexplained || found.said.length !== 1) return [];
+
+  const first =
+    !prev.calc.hasFlow && !next.calc.hasFlow && !next.calc.fuseTripI
+      ? `${found.said[0]}, but no current flows, so no reading changed.`
+      : `${found.said[0]}, so ${listOf(effects(prev.calc, next.calc, b))}.`;
+  const extra = next.calc.fuseTripI === undefined && shortShare(next.calc, b);
+  return extra ? [first, extra] : [first];
+}
@@ -0,0 +1,163 @@
+// Files for slides and lab reports: the schematic as a standalone SVG or a
+// PNG, and the readings as CSV.
+
+import { round1, round2 } from "./electrical";
+import type { CalcResult } from "./electrical";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// PNGs are drawn at twice the schematic's own size, for sharp slides
+const PNG_SCALE = 2;
+
+/** Whether a stylesheet selector picks out anything drawn inside `svg`. */
+function usedIn(svg: SVGSVGElement, selector: string) {
+  try {
+    return !!svg.querySelector(selector);
+  } catch {
+    return false; // a selector this browser can't query, e.g. ::-webkit-*
+  }
+}
+
+/** The page's CSS rules that style this drawing, plus the colour variables. */
+function stylesFor(svg: SVGSVGElement): string {
+  const css: string[] = [];
+  Array.from(document.styleSheets).forEach((sheet) => {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      return; // another origin's stylesheet can't be read
+    }
+    Array.from(rules).forEach((rule) => {
+      if (!(rule instanceof CSSStyleRule)) return;
+      // in a standalone file :root is the <svg>, so the variables still apply
+      if (rule.selectorText === ":root" || usedIn(svg, rule.selectorText)) {
+        css.push(rule.cssText);
+      }
+    });
+  });
+  return css.join("\n");
+}
+
+function viewSize(svg: SVGSVGElement) {
+  const box = svg.viewBox.baseVal;
+  return box && box.width
+    ? { width: box.width, height: box.height }
+    : { width: svg.clientWidth, height: svg.clientHeight };
+}
+
+/**
+ * A copy of `svg` that draws the same outside the app: sized to its viewBox,
+ * on the panel background, with the styles it uses from styles.css inlined.
+ */
+export function standaloneSvg(svg: SVGSVGElement): string {
+  const { width, height } = viewSize(svg);
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute("xmlns", SVG_NS);
+  copy.setAttribute("width", String(width));
+  copy.setAttribute("height", String(height));
+  copy.removeAttribute("class"); // its rule sizes it to the page's panel
+  copy.style.fontFamily = getComputedStyle(document.body).fontFamily;
+
+  const page = getComputedStyle(document.documentElement);
+  const bg = document.createElementNS(SVG_NS, "rect");
+  bg.setAttribute("width", "100%");
+  bg.setAttribute("height", "100%");
+  bg.setAttribute("fill", page.getPropertyValue("--panel").trim() || "#000");
+
+  const style = document.createElementNS(SVG_NS, "style");
+  style.textContent = stylesFor(svg);
+  copy.insertBefore(bg, copy.firstChild);
+  copy.insertBefore(style, bg);
+
+  return new XMLSerializer().serializeToString(copy);
+}
+
+/** The schematic as a PNG, drawn from its standalone SVG. */
+export function svgToPng(svg: SVGSVGElement): Promise<Blob> {
+  const { width, height } = viewSize(svg);
+  const url = URL.createObjectURL(
+    new Blob([standaloneSvg(svg)], { type: "image/svg+xml" })
+  );
+  return new Promise<Blob>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = width * PNG_SCALE;
+      canvas.height = height * PNG_SCALE;
+      canvas
+        .getContext("2d")
+        ?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((png) =>
+        png ? resolve(png) : reject(new Error("PNG export failed."))
+      );
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("PNG export failed."));
+    };
+    img.src = url;
+  });
+}
+
+function csvField(value: string | number) {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csvRow(cells: Array<string | number>) {
+  return cells.map(csvField).join(",");
+}
+
+function num(n: number, round: (n: number) => number = round2) {
+  return Number.isFinite(n) ? round(n) : "∞";
+}
+
+/**
+ * The Summary and the per-element table as CSV, rounded as on screen.
+ * `about` heads the file: the circuit type, voltage, switch and faults.
+ */
+export function resultsCsv(
+  about: Array<[string, string]>,
+  calc: CalcResult,
+  statusText: (status: string) => string
+): string {
+  const summary: Array<[string, string | number]> = [];
+  if (calc.internalR > 0) {
+    summary.push(["Open-Circuit Voltage (V)", num(calc.sourceV)]);
+    summary.push(["Terminal Voltage (V)", num(calc.terminalV)]);
+    summary.push(["Internal Resistance (Ω)", num(calc.internalR)]);
+  }
+  if (calc.relay) {
+    summary.push(["Relay Coil (V)", num(calc.relay.coilV)]);
+    summary.push(["Relay Coil (A)", num(calc.relay.coilI)]);
+    summary.push([
+      "Relay Contacts",
+      calc.relay.contactsClosed ? "Closed" : "Open",
+    ]);
+  }
+  summary.push(["Total Resistance (Ω)", num(calc.totalR)]);
+  summary.push(["Total Current (A)", num(calc.totalI)]);
+  summary.push(["Total Power (W)", num(calc.totalP, round1)]);
+
+  const lines = [
+    ...about.map(csvRow),
+    "",
+    ...summary.map(csvRow),
+    "",
+    csvRow(["Element", "V (V)", "I (A)", "R (Ω)", "P (W)", "Status"]),
+    ...[...calc.rows, ...calc.wireRows].map((r) =>
+      csvRow([
+        r.label,
+        num(r.v),
+        num(r.i),
+        num(r.r),
+        num(r.p, round1),
+        statusText(r.status),
+      ])
+    ),
+  ];
+  // the byte-order mark tells spreadsheets the file is UTF-8 (for Ω)
+  return "\ufeff" + lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,239 @@
+// Quiz and practice history, kept in the browser's localStorage so students
+// can track their weak areas across sessions.
+
+import type {
+  BatteryConfig,
+  CircuitType,
+  FaultType,
+  LoadConfig,
+  RelayConfig,
+  WireFaults,
+} from "./electrical";
+import type { QuizConfig } from "./quizConfig";
+
+// The circuit a question was asked on
+export interface CircuitSnapshot {
+  circuitType: CircuitType;
+  sourceV: number;
+  loadCount: number;
+  switchClosed: boolean;
+  loads: LoadConfig[];
+  wireFaults?: WireFaults; // faults on wire segments, if any
+  battery?: BatteryConfig; // omit for an ideal source
+  relay?: RelayConfig; // omit when the switch feeds the loads directly
+}
+
+export type Quantity =
+  | "rtotal"
+  | "itotal"
+  | "vdrop"
+  | "ibranch"
+  | "power"
+  | "kvl"
+  | "kcl"
+  | "diagnosis"
+  | "predict";
+
+export type AttemptSource = "practice" | "quiz";
+
+export interface AttemptPart {
+  id: string; // question part id (rtotal, itotal, v1, i2…)
+  label: string;
+  quantity: Quantity;
+  answer: string; // exactly what the student typed (or the choice picked)
+  correct: number | string; // a number, or the right choice's value
+  ok: boolean;
+  mistake?: string; // the known misconception a wrong answer matched
+  hints?: number; // practice hint tiers revealed before answering
+}
+
+export interface Attempt {
+  id: string;
+  source: AttemptSource;
+  quizId?: string; // the quiz run this question belonged to
+  timestamp: number; // ms since epoch
+  title: string;
+  difficulty: "beginner" | "experienced";
+  snapshot: CircuitSnapshot;
+  parts: AttemptPart[];
+}
+
+export interface QuizRecord {
+  id: string;
+  startedAt: number;
+  finishedAt: number;
+  score: number;
+  possible: number;
+  setTitle?: string; // the instructor's quiz set, if it wasn't random
+  seed?: string; // a random quiz's seed, to regenerate it
+  config?: QuizConfig; // the setup it was taken with
+}
+
+export interface History {
+  attempts: Attempt[];
+  quizzes: QuizRecord[];
+}
+
+export interface MasteryRow {
+  key: string;
+  label: string;
+  got: number;
+  possible: number;
+}
+
+const STORAGE_KEY = "electrasim.history.v1";
+
+// Oldest attempts are dropped past this, to keep storage bounded
+const MAX_ATTEMPTS = 1000;
+const MAX_QUIZZES = 200;
+
+const QUANTITY_LABELS: Record<Quantity, string> = {
+  rtotal: "Total resistance",
+  itotal: "Total current",
+  vdrop: "Voltage drop",
+  ibranch: "Branch current",
+  power: "Power",
+  kvl: "Kirchhoff's voltage law",
+  kcl: "Kirchhoff's current law",
+  diagnosis: "Fault diagnosis",
+  predict: "Predict the change",
+};
+
+export const CIRCUIT_LABELS: Record<CircuitType, string> = {
+  simple: "Simple",
+  series: "Series",
+  parallel: "Parallel",
+  combination: "Series-Parallel",
+};
+
+export const FAULT_LABELS: Record<FaultType, string> = {
+  normal: "No fault",
+  high: "High resistance",
+  open: "Open",
+  short: "Short",
+};
+
+export function emptyHistory(): History {
+  return { attempts: [], quizzes: [] };
+}
+
+/** Quantity a question part asks for, from its id. */
+export function quantityOf(partId: string): Quantity {
+  if (partId === "rtotal") return "rtotal";
+  if (partId === "itotal") return "itotal";
+  if (partId === "ptotal") return "power";
+  if (/^kvl\d+$/.test(partId)) return "kvl";
+  if (/^kcl\d+$/.test(partId)) return "kcl";
+  if (partId === "diagnosis" || partId === "predict") return partId;
+  if (/^v\d+$/.test(partId)) return "vdrop";
+  return "ibranch";
+}
+
+export function loadHistory(): History {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyHistory();
+    const data = JSON.parse(raw);
+    if (!Array.isArray(data?.attempts) || !Array.isArray(data?.quizzes)) {
+      return emptyHistory();
+    }
+    return { attempts: data.attempts, quizzes: data.quizzes };
+  } catch {
+    // no storage (private mode, server render) or a corrupt entry
+    return emptyHistory();
+  }
+}
+
+export function saveHistory(h: History) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(h));
+  } catch {
+    // storage full or unavailable: history lasts for this session only
+  }
+}
+
+export function addAttempt(h: History, a: Attempt): History {
+  return { ...h, attempts: [...h.attempts, a].slice(-MAX_ATTEMPTS) };
+}
+
+export function addQuiz(h: History, q: QuizRecord): History {
+  return { ...h, quizzes: [...h.quizzes, q].slice(-MAX_QUIZZES) };
+}
+
+/** Faults present in a snapshot (loads and wires), or just "normal". */
+function faultsIn(snap: CircuitSnapshot): FaultType[] {
+  const seen: FaultType[] = [];
+  const note = (f: FaultType) => {
+    if (f !== "normal" && seen.indexOf(f) < 0) seen.push(f);
+  };
+  snap.loads.forEach((l) => note(l.fault));
+  Object.keys(snap.wireFaults ?? {}).forEach((k) =>
+    note((snap.wireFaults as WireFaults)[k])
+  );
+  return seen.length ? seen : ["normal"];
+}
+
+/** Tally parts answered correctly under each key, in `order`. */
+function tally(
+  attempts: Attempt[],
+  keysFor: (a: Attempt, p: AttemptPart) => string[],
+  order: string[],
+  labels: Record<string, string>
+): MasteryRow[] {
+  const rows: Record<string, MasteryRow> = {};
+  attempts.forEach((a) =>
+    a.parts.forEach((p) =>
+      keysFor(a, p).forEach((key) => {
+        const row =
+          rows[key] ??
+          (rows[key] = { key, label: labels[key], got: 0, possible: 0 });
+        row.possible += 1;
+        if (p.ok) row.got += 1;
+      })
+    )
+  );
+  return order.filter((k) => rows[k]).map((k) => rows[k]);
+}
+
+export function masteryByCircuit(attempts: Attempt[]): MasteryRow[] {
+  return tally(
+    attempts,
+    (a) => [a.snapshot.circuitType],
+    Object.keys(CIRCUIT_LABELS),
+    CIRCUIT_LABELS
+  );
+}
+
+export function masteryByQuantity(attempts: Attempt[]): MasteryRow[] {
+  return tally(
+    attempts,
+    (_, p) => [p.quantity],
+    Object.keys(QUANTITY_LABELS),
+    QUANTITY_LABELS
+  );
+}
+
+/** An attempt on a circuit with several faults counts under each of them. */
+export function masteryByFault(attempts: Attempt[]): MasteryRow[] {
+  return tally(
+    attempts,
+    (a) => faultsIn(a.snapshot),
+    Object.keys(FAULT_LABELS),
+    FAULT_LABELS
+  );
+}
+
+/** How often each known mistake was made, most frequent first. */
+export function mistakeCounts(
+  attempts: Attempt[]
+): Array<{ label: string; count: number }> {
+  const counts: Record<string, number> = {};
+  attempts.forEach((a) =>
+    a.parts.forEach((p) => {
+      if (p.mistake) counts[p.mistake] = (counts[p.mistake] ?? 0) + 1;
+    })
+  );
+  return Object.keys(counts)
+    .map((label) => ({ label, count: counts[label] }))
+    .sort((x, y) => y.count - x.count);
+}
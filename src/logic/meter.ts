@@ -0,0 +1,160 @@
+import { equivalentResistance, solveNetlist } from "./netlist";
+import type { NetElement, Netlist } from "./netlist";
+
+export type MeterMode = "volts" | "ohms" | "amps";
+
+export interface MeterReading {
+  display: string; // what the meter face shows
+  value: number | null; // null when there is nothing valid to read
+  warning?: string; // shown under the meter face
+}
+
+// Typical DMM amps jack: fused at 10 A, with a small shunt resistance
+const METER_FUSE_A = 10;
+const METER_SHUNT_R = 0.01;
+
+function fmtReading(n: number) {
+  return (Math.abs(n) < 0.005 ? 0 : n).toFixed(2);
+}
+
+function elementBetween(
+  net: Netlist,
+  a: string,
+  b: string
+): NetElement | undefined {
+  return net.elements.filter(
+    (el) => (el.a === a && el.b === b) || (el.a === b && el.b === a)
+  )[0];
+}
+
+function elementName(el: NetElement) {
+  if (el.id === "K") return "the relay contacts";
+  if (el.id === "COIL") return "the relay coil";
+  if (el.kind === "resistor") {
+    return /^L\d+$/.test(el.id)
+      ? `Load ${el.id.slice(1)}`
+      : "a short to ground";
+  }
+  if (el.kind === "source") return "the battery";
+  if (el.kind === "switch") return "the switch";
+  if (el.kind === "fuse") return "the fuse";
+  return "a wire";
+}
+
+/**
+ * Read the meter with the red probe on node `red` and black on `black`.
+ * `energized` is false when the switch is open or the source is at 0 V.
+ */
+export function readMeter(
+  net: Netlist,
+  mode: MeterMode,
+  red: string | null,
+  black: string | null,
+  energized: boolean
+): MeterReading {
+  if (!red || !black) {
+    return { display: "----", value: null };
+  }
+
+  if (mode === "volts") {
+    const sol = solveNetlist(net);
+    const v = sol.nodeV[red] - sol.nodeV[black];
+    return { display: `${fmtReading(v)} V`, value: v };
+  }
+
+  if (mode === "ohms") {
+    if (energized) {
+      return {
+        display: "Err",
+        value: null,
+        warning:
+          "Ohms mode needs the circuit de-energized: open the switch or turn the source to 0 V.",
+      };
+    }
+    const r = equivalentResistance(net, red, black);
+    return isFinite(r)
+      ? { display: `${fmtReading(r)} Ω`, value: r }
+      : { display: "OL", value: Number.POSITIVE_INFINITY };
+  }
+
+  // amps: the meter is a near-0 Ω path from red to black. In series it replaces
+  // the wire, fuse (or open switch) it bridges; anywhere else it is a shunt.
+  const bridged = elementBetween(net, red, black);
+  const inSeries =
+    !!bridged &&
+    (bridged.kind === "wire" ||
+      bridged.kind === "fuse" ||
+      (bridged.kind === "switch" && !bridged.closed));
+
+  if (bridged && bridged.kind === "switch" && bridged.closed) {
+    return {
+      display: `${fmtReading(0)} A`,
+      value: 0,
+      warning:
+        "The closed switch carries the current around the meter. Open it to read the circuit current.",
+    };
+  }
+
+  const metered: Netlist = {
+    ground: net.ground,
+    elements: [
+      ...net.elements.filter((el) => !(inSeries && el === bridged)),
+      { kind: "resistor", id: "__amm", a: red, b: black, r: METER_SHUNT_R },
+    ],
+  };
+  const i = solveNetlist(metered).current["__amm"];
+
+  if (Math.abs(i) > METER_FUSE_A) {
+    return {
+      display: "FUSE",
+      value: null,
+      warning: `Over ${METER_FUSE_A} A through the meter: its internal fuse blew. ${
+        inSeries
+          ? "Too much circuit current for the meter."
+          : "An ammeter in parallel is a short circuit."
+      }`,
+    };
+  }
+
+  if (!inSeries) {
+    return {
+      display: `${fmtReading(i)} A`,
+      value: i,
+      warning: bridged
+        ? `The meter is in parallel with ${elementName(
+            bridged
+          )} and is shorting it out. Amps mode must be placed in series: put the probes on the two ends of one wire.`
+        : "Amps mode must be placed in series: put the probes on the two ends of one wire.",
+    };
+  }
+
+  return { display: `${fmtReading(i)} A`, value: i };
+}
+
+/** Human name for a netlist node, for measurement logs. */
+export function nodeLabel(node: string) {
+  const m = /^L(\d+)([+-])$/.exec(node);
+  if (m) return `Load ${m[1]} ${m[2] === "+" ? "+" : "−"}`;
+  switch (node) {
+    case "bat":
+      return "Battery +";
+    case "fuse":
+      return "Fuse out";
+    case "swIn":
+      return "Switch in";
+    case "swOut":
+      return "Switch out";
+    case "ctlIn":
+      return "Control switch in";
+    case "ctlOut":
+      return "Relay coil +";
+    case "coilOut":
+      return "Relay coil −";
+    case "ret":
+      return "Return rail";
+    case "gnd":
+      return "Ground";
+    default:
+      return node;
+  }
+}
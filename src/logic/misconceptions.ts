@@ -0,0 +1,169 @@
+// Known wrong answers: the value a student gets from each common mistake,
+// so a wrong answer that matches one can be explained instead of just marked.
+
+import type { CalcResult, CircuitType } from "./electrical";
+
+export interface Misconception {
+  id: string;
+  label: string; // short name, for the progress view
+  value: number; // the answer this mistake produces
+  explanation: string;
+}
+
+function sum(ns: number[]) {
+  return ns.reduce((a, b) => a + b, 0);
+}
+
+function inverseSum(rs: number[]) {
+  return sum(rs.map((r) => 1 / r));
+}
+
+/**
+ * Answers the usual mistakes give for question part `partId` (rtotal,
+ * itotal, ptotal, vN, iN, kvlN, kclN) on this circuit. Mistakes that happen
+ * to give a non-finite number are left out.
+ */
+export function misconceptionsFor(
+  partId: string,
+  ct: CircuitType,
+  calc: CalcResult
+): Misconception[] {
+  const rs = calc.rows.map((r) => r.r);
+  const V = calc.terminalV;
+  const I = calc.totalI;
+  const out: Misconception[] = [];
+  const add = (m: Misconception) => {
+    if (Number.isFinite(m.value)) out.push(m);
+  };
+
+  // the resistances that are in parallel, and what is in series with them
+  const branches = ct === "combination" ? rs.slice(1) : rs;
+  const seriesPart = ct === "combination" ? rs[0] : 0;
+
+  if (partId === "rtotal" || partId === "itotal") {
+    const asSeries = sum(rs);
+    const noReciprocal = seriesPart + inverseSum(branches);
+    const isParallel = ct === "parallel" || ct === "combination";
+    if (partId === "rtotal" && isParallel) {
+      add({
+        id: "parallelAsSeries",
+        label: "Added parallel resistances like series",
+        value: asSeries,
+        explanation:
+          "That is the sum of every resistance, which is only right in series. Parallel branches give the current more paths, so their combined resistance is smaller than the smallest branch: 1/R = 1/R1 + 1/R2 + …",
+      });
+      add({
+        id: "forgotReciprocal",
+        label: "Forgot the reciprocal",
+        value: noReciprocal,
+        explanation:
+          "You added 1/R1 + 1/R2 + … but stopped there. That sum is 1/R, not R: flip it over (1 ÷ the sum) to get the branches' resistance.",
+      });
+    }
+    if (partId === "rtotal" && ct === "series") {
+      add({
+        id: "seriesAsParallel",
+        label: "Combined series resistances like parallel",
+        value: 1 / inverseSum(rs),
+        explanation:
+          "That is the parallel formula. In series the current goes through every load in turn, so the resistances simply add: R = R1 + R2 + …",
+      });
+    }
+    if (partId === "itotal" && isParallel) {
+      add({
+        id: "parallelAsSeries",
+        label: "Added parallel resistances like series",
+        value: V / asSeries,
+        explanation:
+          "That current uses the sum of every resistance as Rtotal. Parallel branches combine as 1/R = 1/R1 + 1/R2 + …, which gives a smaller Rtotal and a larger current.",
+      });
+    }
+    if (partId === "itotal" && rs.length > 1) {
+      add({
+        id: "oneLoadOnly",
+        label: "Used one load instead of Rtotal",
+        value: V / rs[0],
+        explanation:
+          "That is the source voltage over Load 1 alone. Total current is set by the whole circuit: I = V / Rtotal.",
+      });
+    }
+  }
+
+  const kirchhoff = /^(kvl|kcl)(\d+)$/.exec(partId);
+  if (kirchhoff) {
+    const k = Number(kirchhoff[2]);
+    const voltage = kirchhoff[1] === "kvl";
+    const others = calc.rows
+      .filter(
+        (_, i) => i !== k - 1 && (voltage || ct !== "combination" || i > 0)
+      )
+      .map((r) => (voltage ? r.v : r.i));
+    add({
+      id: voltage ? "kvlAdded" : "kclAdded",
+      label: "Added instead of subtracting",
+      value: (voltage ? V : I) + sum(others),
+      explanation: voltage
+        ? "The loads share the source voltage, so the unknown drop is what is left: subtract the known drops from the source."
+        : "The branches share the total current, so the missing branch carries what is left: subtract the known branch currents from the total.",
+    });
+    if (voltage) {
+      add({
+        id: "sourceVForDrop",
+        label: "Used the source voltage for a series drop",
+        value: V,
+        explanation:
+          "That is the whole source voltage. The other loads drop part of it, so this load only gets what is left.",
+      });
+    }
+    return out;
+  }
+
+  if (partId === "ptotal") {
+    add({
+      id: "powerVoverI",
+      label: "Computed P = V / I",
+      value: V / I,
+      explanation:
+        "V / I is a resistance (Ohm's law), not a power. Power is volts times amps: P = V × I.",
+    });
+    add({
+      id: "powerIR",
+      label: "Computed P = I × R",
+      value: I * calc.totalR,
+      explanation:
+        "I × R is a voltage, not a power. Power is P = V × I, or I² × R.",
+    });
+  }
+
+  if (/^v\d+$/.test(partId) && rs.length > 1) {
+    add({
+      id: "sourceVForDrop",
+      label: "Used the source voltage for a series drop",
+      value: V,
+      explanation:
+        "That is the whole source voltage. Loads in series share it: each drop is V = I × Rn, and the drops add up to the source.",
+    });
+  }
+
+  if (/^i\d+$/.test(partId)) {
+    const n = Number(partId.slice(1));
+    add({
+      id: "totalForBranch",
+      label: "Used total current for a branch",
+      value: I,
+      explanation:
+        "That is the total current. It splits between the branches, so each branch carries In = V / Rn, less than the total.",
+    });
+    if (ct === "combination") {
+      add({
+        id: "sourceVForBranch",
+        label: "Ignored the series load's drop",
+        value: V / rs[n - 1],
+        explanation:
+          "That uses the full source voltage across the branch. Load 1 is in series and drops V1 first, so the branches only see V − V1.",
+      });
+    }
+  }
+
+  return out;
+}
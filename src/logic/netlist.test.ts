@@ -0,0 +1,100 @@
+import { equivalentResistance, solveNetlist } from "./netlist";
+import type { NetElement, Netlist } from "./netlist";
+
+const source = (v: number): NetElement => ({
+  kind: "source",
+  id: "SRC",
+  a: "gnd",
+  b: "top",
+  v,
+});
+
+const resistor = (id: string, a: string, b: string, r: number): NetElement => ({
+  kind: "resistor",
+  id,
+  a,
+  b,
+  r,
+});
+
+describe("solveNetlist", () => {
+  it("solves a single resistor with Ohm's law", () => {
+    const net: Netlist = {
+      ground: "gnd",
+      elements: [source(12), resistor("R1", "top", "gnd", 6)],
+    };
+    const sol = solveNetlist(net);
+    expect(sol.nodeV.top).toBe(12);
+    expect(sol.current.R1).toBe(2);
+    // the source's current runs gnd -> top inside it
+    expect(sol.current.SRC).toBe(2);
+  });
+
+  it("divides the voltage across resistors in series", () => {
+    const net: Netlist = {
+      ground: "gnd",
+      elements: [
+        source(12),
+        resistor("R1", "top", "mid", 2),
+        resistor("R2", "mid", "gnd", 4),
+      ],
+    };
+    const sol = solveNetlist(net);
+    expect(sol.nodeV.mid).toBeCloseTo(8);
+    expect(sol.current.R1).toBeCloseTo(2);
+    expect(sol.current.R2).toBeCloseTo(2);
+  });
+
+  it("splits the current between parallel branches", () => {
+    const net: Netlist = {
+      ground: "gnd",
+      elements: [
+        source(12),
+        resistor("R1", "top", "gnd", 3),
+        resistor("R2", "top", "gnd", 6),
+      ],
+    };
+    const sol = solveNetlist(net);
+    expect(sol.current.R1).toBeCloseTo(4);
+    expect(sol.current.R2).toBeCloseTo(2);
+    expect(sol.current.SRC).toBeCloseTo(6);
+  });
+
+  it("carries no current through an open switch", () => {
+    const net: Netlist = {
+      ground: "gnd",
+      elements: [
+        source(12),
+        { kind: "switch", id: "SW", a: "top", b: "out", closed: false },
+        resistor("R1", "out", "gnd", 6),
+      ],
+    };
+    const sol = solveNetlist(net);
+    expect(sol.current.SW).toBe(0);
+    expect(sol.current.R1).toBe(0);
+    expect(sol.nodeV.out).toBe(0);
+  });
+});
+
+describe("equivalentResistance", () => {
+  const net: Netlist = {
+    ground: "gnd",
+    elements: [
+      source(12),
+      resistor("R1", "top", "mid", 2),
+      resistor("R2", "mid", "gnd", 3),
+      resistor("R3", "mid", "gnd", 6),
+    ],
+  };
+
+  it("reads the network with the sources removed", () => {
+    expect(equivalentResistance(net, "top", "gnd")).toBeCloseTo(4);
+    expect(equivalentResistance(net, "mid", "gnd")).toBeCloseTo(2);
+  });
+
+  it("is infinite with no path between the nodes", () => {
+    expect(equivalentResistance(net, "top", "nowhere")).toBe(
+      Number.POSITIVE_INFINITY
+    );
+  });
+});
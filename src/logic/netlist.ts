@@ -0,0 +1,232 @@
+// General nodal-analysis solver (modified nodal analysis).
+// A netlist is a set of named nodes joined by two-terminal elements.
+// Every element runs from terminal `a` to terminal `b`; currents are reported
+// in that direction. Sources are ideal: a voltage source has its + terminal at
+// `b`, a current source pushes `i` amps from `a` to `b`. A wire is an ideal
+// conductor unless it carries a resistance `r` (a faulted segment).
+
+export type NetElement =
+  | { kind: "resistor"; id: string; a: string; b: string; r: number }
+  | { kind: "source"; id: string; a: string; b: string; v: number }
+  | { kind: "current"; id: string; a: string; b: string; i: number }
+  | { kind: "switch"; id: string; a: string; b: string; closed: boolean }
+  | { kind: "fuse"; id: string; a: string; b: string; blown: boolean }
+  | { kind: "wire"; id: string; a: string; b: string; r?: number };
+
+export interface Netlist {
+  ground: string; // reference node, always 0 V
+  elements: NetElement[];
+}
+
+export interface NetSolution {
+  nodeV: Record<string, number>; // volts at every node (ground = 0)
+  current: Record<string, number>; // amps through every element, a -> b
+}
+
+// Leak to ground from nodes with no conducting path to it, so floating nodes
+// still solve (to ~0 V). Nodes that reach ground get none, so it never skews
+// a reading.
+const G_MIN = 1e-9;
+// Anything above this is reported as an open circuit (ohms)
+const R_OPEN_LIMIT = 1e6;
+// Solver noise below this is reported as exactly 0
+const EPS = 1e-9;
+
+function clean(n: number) {
+  return Math.abs(n) < EPS ? 0 : n;
+}
+
+/**
+ * Fixed voltage across an element (wires and closed contacts are 0 V
+ * sources), or null if it is a plain resistance.
+ */
+function elementVolts(el: NetElement): number | null {
+  switch (el.kind) {
+    case "source":
+      return el.v;
+    case "wire":
+      return el.r === undefined ? 0 : null;
+    case "switch":
+      return el.closed ? 0 : null;
+    case "fuse":
+      return el.blown ? null : 0;
+    default:
+      return null;
+  }
+}
+
+/** Resistance of a non-source element (Infinity = open). */
+function elementResistance(el: NetElement): number {
+  if (el.kind === "resistor") return el.r;
+  if (el.kind === "wire" && el.r !== undefined) return el.r;
+  return Number.POSITIVE_INFINITY; // open switch, blown fuse, current source
+}
+
+export function netlistNodes(net: Netlist): string[] {
+  const seen: Record<string, boolean> = { [net.ground]: true };
+  const nodes: string[] = [];
+  net.elements.forEach((el) => {
+    [el.a, el.b].forEach((n) => {
+      if (!seen[n]) {
+        seen[n] = true;
+        nodes.push(n);
+      }
+    });
+  });
+  return nodes;
+}
+
+/**
+ * Nodes joined to ground through sources, closed contacts, wires or
+ * resistances below R_OPEN_LIMIT.
+ */
+function groundedNodes(net: Netlist): Record<string, boolean> {
+  const grounded: Record<string, boolean> = { [net.ground]: true };
+  const links = net.elements.filter(
+    (el) => elementVolts(el) !== null || elementResistance(el) <= R_OPEN_LIMIT
+  );
+  const todo = [net.ground];
+  while (todo.length) {
+    const node = todo.pop() as string;
+    links.forEach((el) => {
+      const other = el.a === node ? el.b : el.b === node ? el.a : null;
+      if (other !== null && !grounded[other]) {
+        grounded[other] = true;
+        todo.push(other);
+      }
+    });
+  }
+  return grounded;
+}
+
+/**
+ * Gaussian elimination with partial pivoting. Columns with no pivot (e.g. a
+ * loop of wires, where the split of current is arbitrary) solve to 0.
+ */
+function solveLinear(A: number[][], z: number[]): number[] {
+  const n = z.length;
+  const M = A.map((row, i) => [...row, z[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-12) continue;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = M[r][col] / M[col][col];
+      if (f === 0) continue;
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+
+  return M.map((row, i) => (Math.abs(row[i]) < 1e-12 ? 0 : row[n] / row[i]));
+}
+
+export function solveNetlist(net: Netlist): NetSolution {
+  const nodes = netlistNodes(net);
+  const index: Record<string, number> = {};
+  nodes.forEach((n, i) => (index[n] = i));
+
+  const sources = net.elements.filter((el) => elementVolts(el) !== null);
+  const size = nodes.length + sources.length;
+  const A = Array.from({ length: size }).map(() => new Array(size).fill(0));
+  const z = new Array(size).fill(0);
+
+  const at = (node: string) =>
+    node === net.ground ? -1 : (index[node] as number);
+
+  const grounded = groundedNodes(net);
+  nodes.forEach((n, i) => {
+    if (!grounded[n]) A[i][i] += G_MIN;
+  });
+
+  net.elements.forEach((el) => {
+    if (elementVolts(el) !== null) return;
+    const r = elementResistance(el);
+    if (!isFinite(r)) return;
+    const g = 1 / r;
+    const a = at(el.a);
+    const b = at(el.b);
+    if (a >= 0) A[a][a] += g;
+    if (b >= 0) A[b][b] += g;
+    if (a >= 0 && b >= 0) {
+      A[a][b] -= g;
+      A[b][a] -= g;
+    }
+  });
+
+  sources.forEach((src, k) => {
+    const row = nodes.length + k;
+    const a = at(src.a);
+    const b = at(src.b);
+    // source current (a -> b inside the source) leaves node a, enters node b
+    if (a >= 0) {
+      A[a][row] += 1;
+      A[row][a] -= 1;
+    }
+    if (b >= 0) {
+      A[b][row] -= 1;
+      A[row][b] += 1;
+    }
+    z[row] = elementVolts(src) as number;
+  });
+
+  net.elements.forEach((el) => {
+    if (el.kind !== "current") return;
+    const a = at(el.a);
+    const b = at(el.b);
+    if (a >= 0) z[a] -= el.i;
+    if (b >= 0) z[b] += el.i;
+  });
+
+  const x = solveLinear(A, z);
+
+  const nodeV: Record<string, number> = { [net.ground]: 0 };
+  nodes.forEach((n, i) => (nodeV[n] = clean(x[i])));
+
+  const current: Record<string, number> = {};
+  net.elements.forEach((el) => {
+    const k = sources.indexOf(el);
+    if (k >= 0) {
+      current[el.id] = clean(x[nodes.length + k]);
+      return;
+    }
+    if (el.kind === "current") {
+      current[el.id] = el.i;
+      return;
+    }
+    const r = elementResistance(el);
+    current[el.id] = isFinite(r) ? clean((nodeV[el.a] - nodeV[el.b]) / r) : 0;
+  });
+
+  return { nodeV, current };
+}
+
+/**
+ * Resistance between two nodes with every source disconnected, the way an
+ * ohmmeter reads it. Infinity if there is no path.
+ */
+export function equivalentResistance(
+  net: Netlist,
+  a: string,
+  b: string
+): number {
+  if (a === b) return 0;
+
+  // push 1 A from b to a through the network: R = V(a) - V(b)
+  const test: Netlist = {
+    ground: b,
+    elements: [
+      ...net.elements.filter(
+        (el) => el.kind !== "source" && el.kind !== "current"
+      ),
+      { kind: "current", id: "__ohm", a: b, b: a, i: 1 },
+    ],
+  };
+  const r = solveNetlist(test).nodeV[a];
+  return r > R_OPEN_LIMIT ? Number.POSITIVE_INFINITY : Math.max(r, 0);
+}
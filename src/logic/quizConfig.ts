@@ -0,0 +1,120 @@
+// Quiz setup: how long a random quiz is, its time limit and what may appear
+// in it. Remembered between visits and saved with each quiz result.
+
+import { CIRCUIT_TYPES, clamp } from "./electrical";
+import type { CircuitType, FaultType } from "./electrical";
+
+export type TimeLimit = "none" | "quiz" | "question";
+
+export interface QuizConfig {
+  questions: number;
+  timeLimit: TimeLimit;
+  timeLimitSec: number; // for the whole quiz or for each question
+  circuitTypes: CircuitType[];
+  faultTypes: FaultType[]; // faults that may appear, besides "normal"
+  voltageMin: number;
+  voltageMax: number;
+  beginnerPct: number; // the first questions are beginner, the rest experienced
+}
+
+export const DEFAULT_QUIZ_CONFIG: QuizConfig = {
+  questions: 10,
+  timeLimit: "none",
+  timeLimitSec: 600,
+  circuitTypes: ["simple", "series", "parallel"],
+  faultTypes: ["high", "open", "short"],
+  voltageMin: 12,
+  voltageMax: 12,
+  beginnerPct: 40,
+};
+
+const STORAGE_KEY = "electrasim.quizConfig.v1";
+
+const FAULT_TYPES: FaultType[] = ["high", "open", "short"];
+
+// Same steps as the source voltage slider
+export const VOLTAGE_STEP = 3;
+const V_MIN = 3;
+const V_MAX = 24;
+
+function toStep(v: number) {
+  return clamp(Math.round(v / VOLTAGE_STEP) * VOLTAGE_STEP, V_MIN, V_MAX);
+}
+
+/** A usable config: in range, in order, and at least one circuit type. */
+export function normalizeQuizConfig(c: Partial<QuizConfig>): QuizConfig {
+  const d = DEFAULT_QUIZ_CONFIG;
+  const num = (v: unknown, fallback: number) =>
+    typeof v === "number" && Number.isFinite(v) ? v : fallback;
+  const circuitTypes = CIRCUIT_TYPES.filter(
+    (t) => (c.circuitTypes ?? d.circuitTypes).indexOf(t) >= 0
+  );
+  const lo = toStep(num(c.voltageMin, d.voltageMin));
+  const hi = toStep(num(c.voltageMax, d.voltageMax));
+
+  return {
+    questions: clamp(Math.round(num(c.questions, d.questions)), 1, 30),
+    timeLimit:
+      c.timeLimit === "quiz" || c.timeLimit === "question"
+        ? c.timeLimit
+        : "none",
+    timeLimitSec: clamp(
+      Math.round(num(c.timeLimitSec, d.timeLimitSec)),
+      10,
+      7200
+    ),
+    circuitTypes: circuitTypes.length ? circuitTypes : d.circuitTypes,
+    faultTypes: FAULT_TYPES.filter(
+      (f) => (c.faultTypes ?? d.faultTypes).indexOf(f) >= 0
+    ),
+    voltageMin: Math.min(lo, hi),
+    voltageMax: Math.max(lo, hi),
+    beginnerPct: clamp(Math.round(num(c.beginnerPct, d.beginnerPct)), 0, 100),
+  };
+}
+
+/** Whether question `step` (1-based) of the quiz is a beginner one. */
+export function isBeginnerStep(c: QuizConfig, step: number) {
+  return step <= Math.round((c.questions * c.beginnerPct) / 100);
+}
+
+export function formatDuration(sec: number) {
+  const s = Math.max(0, Math.ceil(sec));
+  const m = Math.floor(s / 60);
+  return `${m}:${s % 60 < 10 ? "0" : ""}${s % 60}`;
+}
+
+/** One line for the results list, e.g. "10 questions, 0:30 per question". */
+export function describeQuizConfig(c: QuizConfig) {
+  const parts = [`${c.questions} questions`];
+  if (c.timeLimit === "quiz")
+    parts.push(`${formatDuration(c.timeLimitSec)} total`);
+  if (c.timeLimit === "question") {
+    parts.push(`${formatDuration(c.timeLimitSec)} per question`);
+  }
+  parts.push(c.circuitTypes.join("/"));
+  parts.push(
+    c.voltageMin === c.voltageMax
+      ? `${c.voltageMin} V`
+      : `${c.voltageMin}–${c.voltageMax} V`
+  );
+  parts.push(`${c.beginnerPct}% beginner`);
+  return parts.join(", ");
+}
+
+export function loadQuizConfig(): QuizConfig {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return normalizeQuizConfig(raw ? JSON.parse(raw) : {});
+  } catch {
+    return DEFAULT_QUIZ_CONFIG;
+  }
+}
+
+export function saveQuizConfig(c: QuizConfig) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(c));
+  } catch {
+    // storage full or disabled: the setup just isn't remembered
+  }
+}
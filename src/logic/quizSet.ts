@@ -0,0 +1,271 @@
+// Instructor-authored quiz sets: a fixed, ordered list of circuits, each with
+// the question parts to ask. Saved and loaded as versioned JSON files.
+
+import { CIRCUIT_TYPES, wireSegments } from "./electrical";
+import type { CircuitType, FaultType } from "./electrical";
+import type { CircuitSnapshot } from "./history";
+
+export const QUIZ_SET_FORMAT = "electrasim-quiz-set";
+export const QUIZ_SET_VERSION = 1;
+
+export interface QuizSetPart {
+  id: string; // rtotal, itotal, ptotal, vN or iN (see partIdsFor)
+  tol?: number; // answer tolerance, in the part's unit; omit for the default
+}
+
+export interface QuizSetQuestion {
+  title?: string;
+  prompt?: string; // custom prompt text; omit for the default
+  snapshot: CircuitSnapshot;
+  parts: QuizSetPart[];
+}
+
+export interface QuizSet {
+  format: typeof QUIZ_SET_FORMAT;
+  version: typeof QUIZ_SET_VERSION;
+  title: string;
+  questions: QuizSetQuestion[];
+}
+
+export type QuizSetImport =
+  | { ok: true; set: QuizSet }
+  | { ok: false; errors: string[] };
+
+const FAULT_TYPES: FaultType[] = ["normal", "high", "open", "short"];
+
+// Same ranges as the sliders
+const R_MIN = 1;
+const R_MAX = 25;
+const V_MIN = 1;
+const V_MAX = 24;
+
+/** Load counts each circuit type supports. */
+export function loadCountRange(ct: CircuitType): [number, number] {
+  if (ct === "simple") return [1, 1];
+  if (ct === "combination") return [3, 5];
+  return [2, 5];
+}
+
+/**
+ * Question parts that can be asked on a circuit: the totals, then voltage
+ * drops (series loads, or Load 1 of a combination) and branch currents.
+ */
+export function partIdsFor(ct: CircuitType, loadCount: number): string[] {
+  const ids = ["rtotal", "itotal", "ptotal"];
+  for (let n = 1; n <= loadCount; n++) {
+    if (ct === "series" || (ct === "combination" && n === 1)) {
+      ids.push(`v${n}`);
+    } else if (ct === "parallel" || ct === "combination") {
+      ids.push(`i${n}`);
+    }
+  }
+  return ids;
+}
+
+export function emptyQuizSet(title: string): QuizSet {
+  return {
+    format: QUIZ_SET_FORMAT,
+    version: QUIZ_SET_VERSION,
+    title,
+    questions: [],
+  };
+}
+
+export function serializeQuizSet(set: QuizSet): string {
+  return JSON.stringify(set, null, 2);
+}
+
+function isNum(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function isOneOf<T extends string>(list: T[], v: unknown): v is T {
+  return (list as unknown[]).indexOf(v) >= 0;
+}
+
+function inRange(v: unknown, min: number, max: number) {
+  return isNum(v) && v >= min && v <= max;
+}
+
+function quote(v: unknown) {
+  return typeof v === "string" ? `"${v}"` : JSON.stringify(v);
+}
+
+function checkSnapshot(snap: unknown, where: string, errors: string[]) {
+  if (!isRecord(snap)) {
+    errors.push(`${where}: missing "snapshot".`);
+    return;
+  }
+  const ct = snap.circuitType;
+  if (!isOneOf(CIRCUIT_TYPES, ct)) {
+    errors.push(
+      `${where}: unknown circuit type ${quote(ct)} (use ${CIRCUIT_TYPES.join(
+        ", "
+      )}).`
+    );
+    return;
+  }
+  if (!inRange(snap.sourceV, V_MIN, V_MAX)) {
+    errors.push(
+      `${where}: source voltage ${quote(
+        snap.sourceV
+      )} is out of range (${V_MIN}–${V_MAX} V).`
+    );
+  }
+  if (snap.switchClosed !== true) {
+    errors.push(`${where}: the switch must be closed, or every answer is 0.`);
+  }
+
+  const [minN, maxN] = loadCountRange(ct);
+  const n = snap.loadCount;
+  if (!isNum(n) || !Number.isInteger(n) || n < minN || n > maxN) {
+    errors.push(
+      `${where}: load count ${quote(n)} is not valid for a ${ct} circuit (${
+        minN === maxN ? minN : `${minN}–${maxN}`
+      }).`
+    );
+    return;
+  }
+  if (!Array.isArray(snap.loads) || snap.loads.length !== n) {
+    errors.push(`${where}: "loads" must list exactly ${n} load(s).`);
+    return;
+  }
+  snap.loads.forEach((item: unknown, i: number) => {
+    const at = `${where}, Load ${i + 1}`;
+    const l = isRecord(item) ? item : {};
+    if (!inRange(l.rUser, R_MIN, R_MAX)) {
+      errors.push(
+        `${at}: resistance ${quote(
+          l.rUser
+        )} Ω is out of range (${R_MIN}–${R_MAX} Ω).`
+      );
+    }
+    if (!isOneOf(FAULT_TYPES, l.fault)) {
+      errors.push(
+        `${at}: unknown fault type ${quote(l.fault)} (use ${FAULT_TYPES.join(
+          ", "
+        )}).`
+      );
+    }
+    if (l.kind !== undefined && l.kind !== "resistor" && l.kind !== "lamp") {
+      errors.push(`${at}: unknown load kind ${quote(l.kind)}.`);
+    }
+  });
+
+  const wires = snap.wireFaults;
+  if (wires !== undefined && !isRecord(wires)) {
+    errors.push(`${where}: "wireFaults" must map wire segments to faults.`);
+  } else if (wires) {
+    const segs = wireSegments(ct, n);
+    Object.keys(wires).forEach((id) => {
+      const seg = segs.filter((s) => s.id === id)[0];
+      const f = wires[id];
+      if (!seg) {
+        errors.push(`${where}: no wire segment ${quote(id)} in this circuit.`);
+      } else if (!isOneOf(FAULT_TYPES, f) || (f === "short" && !seg.canShort)) {
+        errors.push(
+          `${where}, ${seg.label}: ${quote(f)} is not a valid fault here.`
+        );
+      }
+    });
+  }
+
+  // quiz mode always runs on the ideal source with the switch feeding the loads
+  if (snap.battery !== undefined || snap.relay !== undefined) {
+    errors.push(`${where}: quiz sets can't include a battery or relay.`);
+  }
+}
+
+function checkParts(
+  q: Record<string, unknown>,
+  where: string,
+  errors: string[]
+) {
+  if (!Array.isArray(q.parts) || q.parts.length === 0) {
+    errors.push(`${where}: "parts" must list at least one question part.`);
+    return;
+  }
+  const snap = q.snapshot;
+  const allowed =
+    isRecord(snap) &&
+    isOneOf(CIRCUIT_TYPES, snap.circuitType) &&
+    isNum(snap.loadCount)
+      ? partIdsFor(snap.circuitType, snap.loadCount)
+      : null;
+  const seen: Record<string, boolean> = {};
+  q.parts.forEach((item: unknown, i: number) => {
+    const at = `${where}, part ${i + 1}`;
+    const p = isRecord(item) ? item : {};
+    const id = typeof p.id === "string" ? p.id : undefined;
+    if (allowed && (id === undefined || allowed.indexOf(id) < 0)) {
+      errors.push(
+        `${at}: ${quote(
+          p.id
+        )} can't be asked on this circuit (use ${allowed.join(", ")}).`
+      );
+    } else if (id !== undefined && seen[id]) {
+      errors.push(`${at}: ${quote(id)} is asked twice.`);
+    }
+    if (id !== undefined) seen[id] = true;
+    if (p.tol !== undefined && !(isNum(p.tol) && p.tol > 0)) {
+      errors.push(
+        `${at}: tolerance ${quote(p.tol)} must be a positive number.`
+      );
+    }
+  });
+}
+
+/** Parse and validate a quiz set file, collecting every problem found. */
+export function parseQuizSet(text: string): QuizSetImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ["The file is not valid JSON."] };
+  }
+  if (!isRecord(data) || data.format !== QUIZ_SET_FORMAT) {
+    return { ok: false, errors: ["This is not an ElectraSim quiz set file."] };
+  }
+  if (data.version !== QUIZ_SET_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `Quiz set version ${quote(
+          data.version
+        )} is not supported (expected ${QUIZ_SET_VERSION}).`,
+      ],
+    };
+  }
+
+  const errors: string[] = [];
+  if (typeof data.title !== "string" || !data.title.trim()) {
+    errors.push(`The quiz set needs a "title".`);
+  }
+  if (!Array.isArray(data.questions) || data.questions.length === 0) {
+    errors.push(`The quiz set has no questions.`);
+    return { ok: false, errors };
+  }
+  data.questions.forEach((q: unknown, i: number) => {
+    const where = `Question ${i + 1}`;
+    if (!isRecord(q)) {
+      errors.push(`${where}: not a question object.`);
+      return;
+    }
+    ["title", "prompt"].forEach((k) => {
+      if (q[k] !== undefined && typeof q[k] !== "string") {
+        errors.push(`${where}: "${k}" must be text.`);
+      }
+    });
+    checkSnapshot(q.snapshot, where, errors);
+    checkParts(q, where, errors);
+  });
+
+  // every field was checked above, so the file is a QuizSet
+  return errors.length
+    ? { ok: false, errors }
+    : { ok: true, set: data as unknown as QuizSet };
+}
@@ -0,0 +1,44 @@
+// Seeded random numbers, so a quiz can be regenerated exactly from its seed.
+
+/** A source of random numbers in [0, 1), like Math.random. */
+export type Rng = () => number;
+
+// Seeds are shown to students and typed back in as short base-36 codes
+const SEED_PATTERN = /^[0-9a-z]{1,7}$/i;
+const SEED_LIMIT = 0x7fffffff; // 7 base-36 digits hold this comfortably
+
+/** mulberry32: small, fast and good enough for quiz generation. */
+export function makeRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * An independent stream for one item of a sequence (question `n` of a
+ * quiz), so any single item can be regenerated without the ones before it.
+ */
+export function itemRng(seed: number, n: number): Rng {
+  return makeRng(Math.imul(seed ^ 0x5bd1e995, 0x9e3779b1) + n * 0x27d4eb2d);
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * SEED_LIMIT);
+}
+
+export function formatSeed(seed: number): string {
+  return seed.toString(36).toUpperCase();
+}
+
+/** The seed a student typed, or null if it isn't one. */
+export function parseSeed(text: string): number | null {
+  const t = text.trim();
+  if (!SEED_PATTERN.test(t)) return null;
+  const seed = parseInt(t, 36);
+  return seed <= SEED_LIMIT ? seed : null;
+}
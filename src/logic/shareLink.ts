@@ -0,0 +1,116 @@
+// Shareable links: the demo / practice circuit encoded in the URL query, e.g.
+// ?m=demo&c=parallel&v=12&n=3&sw=1&l=6,6o,12hL&w=LEG2:h
+// Each load is its resistance, a fault letter (omitted when normal) and "L"
+// for a lamp. `p=1` marks a read-only presentation link.
+
+import { CIRCUIT_TYPES, clamp, wireSegments } from "./electrical";
+import type {
+  CircuitType,
+  FaultType,
+  LoadConfig,
+  WireFaults,
+} from "./electrical";
+import type { CircuitSnapshot } from "./history";
+import { loadCountRange } from "./quizSet";
+
+export type SharedMode = "demo" | "practice";
+
+export interface SharedState {
+  mode: SharedMode;
+  presentation: boolean;
+  snapshot: CircuitSnapshot;
+}
+
+const FAULT_CODES: Record<FaultType, string> = {
+  normal: "",
+  high: "h",
+  open: "o",
+  short: "s",
+};
+
+function faultFromCode(code: string): FaultType {
+  const match = (Object.keys(FAULT_CODES) as FaultType[]).filter(
+    (f) => FAULT_CODES[f] === code
+  )[0];
+  return match ?? "normal";
+}
+
+export function encodeShareLink(state: SharedState): string {
+  const snap = state.snapshot;
+  const loads = snap.loads
+    .slice(0, snap.loadCount)
+    .map(
+      (l) => `${l.rUser}${FAULT_CODES[l.fault]}${l.kind === "lamp" ? "L" : ""}`
+    );
+  const wf = snap.wireFaults ?? {};
+  const wires = wireSegments(snap.circuitType, snap.loadCount)
+    .filter((seg) => wf[seg.id] && wf[seg.id] !== "normal")
+    .map((seg) => `${seg.id}:${FAULT_CODES[wf[seg.id]]}`);
+
+  // every value is plain [A-Za-z0-9.,:], so it stays readable unescaped
+  const parts = [
+    `m=${state.mode}`,
+    `c=${snap.circuitType}`,
+    `v=${snap.sourceV}`,
+    `n=${snap.loadCount}`,
+    `sw=${snap.switchClosed ? 1 : 0}`,
+    `l=${loads.join(",")}`,
+  ];
+  if (wires.length) parts.push(`w=${wires.join(",")}`);
+  if (state.presentation) parts.push("p=1");
+  return parts.join("&");
+}
+
+/**
+ * Read a link's circuit back, or null if the query doesn't describe one.
+ * Out-of-range values are clamped to what the controls allow.
+ */
+export function decodeShareLink(search: string): SharedState | null {
+  const params = new URLSearchParams(search);
+  const ct = params.get("c") as CircuitType;
+  if (CIRCUIT_TYPES.indexOf(ct) < 0) return null;
+
+  const [minN, maxN] = loadCountRange(ct);
+  const loadCount = clamp(
+    parseInt(params.get("n") ?? "", 10) || minN,
+    minN,
+    maxN
+  );
+  const sourceV = clamp(parseFloat(params.get("v") ?? "") || 0, 0, 24);
+
+  const tokens = (params.get("l") ?? "").split(",");
+  const loads: LoadConfig[] = Array.from({ length: loadCount }).map((_, i) => {
+    const m = /^(\d+(?:\.\d+)?)([hos]?)(L?)$/.exec(tokens[i] ?? "");
+    const load: LoadConfig = {
+      rUser: m ? clamp(parseFloat(m[1]), 1, 25) : 6,
+      fault: m ? faultFromCode(m[2]) : "normal",
+    };
+    if (m && m[3]) load.kind = "lamp";
+    return load;
+  });
+
+  const wireFaults: WireFaults = {};
+  const segs = wireSegments(ct, loadCount);
+  (params.get("w") ?? "")
+    .split(",")
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [id, code] = entry.split(":");
+      const seg = segs.filter((s) => s.id === id)[0];
+      const fault = faultFromCode(code ?? "");
+      if (seg && (fault !== "short" || seg.canShort)) wireFaults[id] = fault;
+    });
+
+  return {
+    mode: params.get("m") === "practice" ? "practice" : "demo",
+    presentation: params.get("p") === "1",
+    snapshot: {
+      circuitType: ct,
+      sourceV,
+      loadCount,
+      switchClosed: params.get("sw") !== "0",
+      loads,
+      wireFaults,
+    },
+  };
+}
@@ -0,0 +1,108 @@
+// What-if sweeps: one input stepped across a range, with the circuit solved
+// at every step, for the trend graphs.
+
+import { calcCircuit } from "./electrical";
+import type { CalcOptions, CalcResult } from "./electrical";
+
+// The source voltage, or the index of the load whose resistance is swept
+export type SweepInput = "sourceV" | number;
+
+export interface SweepRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface SweepPoint {
+  x: number;
+  calc: CalcResult;
+}
+
+export interface SweepSeries {
+  label: string;
+  load?: number; // the load's index (omitted for a total)
+  values: number[]; // one per sweep point
+}
+
+export interface SweepCharts {
+  current: SweepSeries[];
+  voltage: SweepSeries[];
+  power: SweepSeries[];
+}
+
+// The same limits as the sliders the input comes from
+export const SWEEP_RANGES: Record<"sourceV" | "load", SweepRange> = {
+  sourceV: { min: 0, max: 24, step: 1 },
+  load: { min: 1, max: 25, step: 0.5 },
+};
+
+const SWEEP_POINTS = 61;
+
+export function sweepRange(input: SweepInput) {
+  return SWEEP_RANGES[input === "sourceV" ? "sourceV" : "load"];
+}
+
+export function sweepLabel(input: SweepInput) {
+  return input === "sourceV" ? "Source voltage (V)" : `R${input + 1} (Ω)`;
+}
+
+/** The circuit with the swept input set to `x`. */
+function withInput(
+  opts: CalcOptions,
+  input: SweepInput,
+  x: number
+): CalcOptions {
+  if (input !== "sourceV") {
+    return {
+      ...opts,
+      loads: opts.loads.map((l, i) => (i === input ? { ...l, rUser: x } : l)),
+    };
+  }
+  // a battery's voltage is its open-circuit voltage
+  return opts.battery
+    ? { ...opts, battery: { ...opts.battery, ocv: x } }
+    : { ...opts, sourceV: x };
+}
+
+/**
+ * Solve the circuit at evenly spaced values of `input` from `from` to `to`.
+ * Each step starts with a good fuse, so the graph shows where it would blow.
+ */
+export function runSweep(
+  opts: CalcOptions,
+  input: SweepInput,
+  from: number,
+  to: number
+): SweepPoint[] {
+  const fuse = opts.fuse && { ...opts.fuse, blown: false };
+  const points: SweepPoint[] = [];
+  for (let k = 0; k < SWEEP_POINTS; k++) {
+    const x = from + ((to - from) * k) / (SWEEP_POINTS - 1);
+    points.push({
+      x,
+      calc: calcCircuit(withInput({ ...opts, fuse }, input, x)),
+    });
+  }
+  return points;
+}
+
+/** Totals and each load's readings, grouped by the quantity they measure. */
+export function sweepCharts(points: SweepPoint[]): SweepCharts {
+  const loadCount = points.length ? points[0].calc.rows.length : 0;
+  const total = (read: (c: CalcResult) => number): SweepSeries => ({
+    label: "Total",
+    values: points.map((p) => read(p.calc)),
+  });
+  const perLoad = (read: (c: CalcResult, i: number) => number) =>
+    Array.from({ length: loadCount }, (_, i) => ({
+      label: `Load ${i + 1}`,
+      load: i,
+      values: points.map((p) => read(p.calc, i)),
+    }));
+
+  return {
+    current: [total((c) => c.totalI), ...perLoad((c, i) => c.rows[i].i)],
+    voltage: perLoad((c, i) => c.rows[i].v),
+    power: [total((c) => c.totalP), ...perLoad((c, i) => c.rows[i].p)],
+  };
+}
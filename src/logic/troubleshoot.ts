@@ -0,0 +1,241 @@
+// Hidden-fault troubleshooting: one fault is injected somewhere in the
+// circuit, the student measures, then names the component and fault type.
+
+import { calcCircuit, wireSegments } from "./electrical";
+import type {
+  CircuitType,
+  FaultType,
+  LoadConfig,
+  WireFaults,
+} from "./electrical";
+import { readMeter } from "./meter";
+import type { MeterMode } from "./meter";
+import type { Netlist } from "./netlist";
+
+export interface Suspect {
+  id: string; // "L1".. for loads, else a wire segment id (FEED, LEG2, GND…)
+  label: string;
+  canShort: boolean;
+}
+
+export interface HiddenFault {
+  component: string; // Suspect id
+  fault: FaultType;
+}
+
+export interface TroubleshootScenario {
+  circuitType: CircuitType;
+  sourceV: number;
+  loadCount: number;
+  switchClosed: boolean;
+  loads: LoadConfig[];
+  wireFaults: WireFaults;
+  answer: HiddenFault;
+}
+
+export interface Measurement {
+  mode: MeterMode;
+  red: string; // node names
+  black: string;
+  display: string; // what the meter showed
+}
+
+export interface DiagnosticStep extends Measurement {
+  remaining: number; // suspects still consistent after this reading
+}
+
+export interface TroubleshootResult {
+  componentOk: boolean;
+  faultOk: boolean;
+  points: number;
+  possible: number;
+  taken: number; // measurements the student made
+  path: DiagnosticStep[]; // optimal diagnostic path
+}
+
+const FAULTS: FaultType[] = ["high", "open", "short"];
+
+// Score weights (out of 100): right component, right fault, efficiency
+const POINTS_COMPONENT = 50;
+const POINTS_FAULT = 20;
+const POINTS_EFFICIENCY = 30;
+
+export function suspectsFor(
+  circuitType: CircuitType,
+  loadCount: number
+): Suspect[] {
+  const loads: Suspect[] = Array.from({ length: loadCount }).map((_, i) => ({
+    id: `L${i + 1}`,
+    label: `Load ${i + 1}`,
+    canShort: true,
+  }));
+  return [...loads, ...wireSegments(circuitType, loadCount)];
+}
+
+function allFaults(suspects: Suspect[]): HiddenFault[] {
+  const out: HiddenFault[] = [];
+  suspects.forEach((s) =>
+    FAULTS.forEach((fault) => {
+      if (fault !== "short" || s.canShort) out.push({ component: s.id, fault });
+    })
+  );
+  return out;
+}
+
+/** The scenario's circuit with `h` as its only fault. */
+function withFault(
+  sc: TroubleshootScenario,
+  h: HiddenFault
+): { loads: LoadConfig[]; wireFaults: WireFaults } {
+  const loads = sc.loads.map((l, i) => ({
+    rUser: l.rUser,
+    fault: `L${i + 1}` === h.component ? h.fault : ("normal" as FaultType),
+  }));
+  const wireFaults: WireFaults = /^L\d+$/.test(h.component)
+    ? {}
+    : { [h.component]: h.fault };
+  return { loads, wireFaults };
+}
+
+function netlistFor(sc: TroubleshootScenario, h: HiddenFault): Netlist {
+  return calcCircuit({
+    circuitType: sc.circuitType,
+    sourceV: sc.sourceV,
+    switchClosed: true,
+    ...withFault(sc, h),
+  }).netlist;
+}
+
+export function generateTroubleshootScenario(): TroubleshootScenario {
+  const types: CircuitType[] = ["simple", "series", "parallel", "combination"];
+  const circuitType = types[Math.floor(Math.random() * types.length)];
+  const loadCount =
+    circuitType === "simple"
+      ? 1
+      : circuitType === "combination"
+      ? 3 + Math.floor(Math.random() * 3)
+      : 2 + Math.floor(Math.random() * 4);
+
+  const loads: LoadConfig[] = Array.from({ length: loadCount }).map(() => ({
+    rUser: Math.round((2 + Math.random() * 18) * 2) / 2,
+    fault: "normal",
+  }));
+
+  const options = allFaults(suspectsFor(circuitType, loadCount));
+  const answer = options[Math.floor(Math.random() * options.length)];
+
+  const sc: TroubleshootScenario = {
+    circuitType,
+    sourceV: 12,
+    loadCount,
+    switchClosed: true,
+    loads,
+    wireFaults: {},
+    answer,
+  };
+  return { ...sc, ...withFault(sc, answer) };
+}
+
+/** Readings worth taking: volts to ground, volts across and amps through. */
+function candidateMeasurements(net: Netlist): Measurement[] {
+  const seen: Record<string, boolean> = {};
+  const out: Measurement[] = [];
+  const add = (mode: MeterMode, red: string, black: string) => {
+    const key = `${mode}:${red}:${black}`;
+    if (red === black || seen[key]) return;
+    seen[key] = true;
+    out.push({ mode, red, black, display: "" });
+  };
+
+  net.elements.forEach((el) => {
+    if (el.kind !== "source") add("volts", el.b, net.ground);
+  });
+  net.elements.forEach((el) => {
+    if (el.kind !== "source") add("volts", el.a, el.b);
+  });
+  net.elements.forEach((el) => {
+    if (el.kind === "wire") add("amps", el.a, el.b);
+  });
+  return out;
+}
+
+/** Sum of squared group sizes when `row` splits the `live` suspects. */
+function splitCost(row: string[], live: number[]) {
+  const groups: Record<string, number> = {};
+  live.forEach((h) => (groups[row[h]] = (groups[row[h]] ?? 0) + 1));
+  return Object.keys(groups).reduce((sum, k) => sum + groups[k] * groups[k], 0);
+}
+
+/**
+ * The optimal diagnostic path for a scenario: at each step take the reading
+ * that best splits the suspects still in play (fewest expected left), until
+ * only the real fault is consistent with everything measured.
+ */
+export function optimalPath(sc: TroubleshootScenario): DiagnosticStep[] {
+  const hyps = allFaults(suspectsFor(sc.circuitType, sc.loadCount));
+  const actual = hyps.findIndex(
+    (h) => h.component === sc.answer.component && h.fault === sc.answer.fault
+  );
+  const nets = hyps.map((h) => netlistFor(sc, h));
+  const cands = candidateMeasurements(
+    calcCircuit({
+      circuitType: sc.circuitType,
+      sourceV: sc.sourceV,
+      switchClosed: true,
+      loads: sc.loads,
+    }).netlist
+  );
+  const table = cands.map((m) =>
+    nets.map((net) => readMeter(net, m.mode, m.red, m.black, true).display)
+  );
+
+  let live = hyps.map((_, i) => i);
+  const steps: DiagnosticStep[] = [];
+
+  while (live.length > 1) {
+    let best = -1;
+    let bestCost = live.length * live.length;
+    for (let m = 0; m < table.length; m++) {
+      const cost = splitCost(table[m], live);
+      if (cost < bestCost) {
+        best = m;
+        bestCost = cost;
+      }
+    }
+    if (best < 0) break; // nothing left tells the suspects apart
+
+    const seen = table[best][actual];
+    live = live.filter((h) => table[best][h] === seen);
+    steps.push({ ...cands[best], display: seen, remaining: live.length });
+  }
+  return steps;
+}
+
+export function gradeDiagnosis(
+  sc: TroubleshootScenario,
+  guess: HiddenFault,
+  taken: number
+): TroubleshootResult {
+  const path = optimalPath(sc);
+  const componentOk = guess.component === sc.answer.component;
+  const faultOk = componentOk && guess.fault === sc.answer.fault;
+
+  // full efficiency marks for matching (or beating) the optimal path; a
+  // guess with no measurements at all earns none
+  const efficiency =
+    taken > 0 ? Math.min(1, Math.max(path.length, 1) / taken) : 0;
+  const points = componentOk
+    ? POINTS_COMPONENT +
+      (faultOk ? POINTS_FAULT : 0) +
+      Math.round(POINTS_EFFICIENCY * efficiency)
+    : 0;
+
+  return {
+    componentOk,
+    faultOk,
+    points,
+    possible: POINTS_COMPONENT + POINTS_FAULT + POINTS_EFFICIENCY,
+    taken,
+    path,
+  };
+}